@@ -1,4 +1,5 @@
 import ScanScanner from '@/components/scanner/scan-scanner';
+import ScanGenerator from '@/components/scanner/scan-generator';
 
 export default function Home() {
   return (
@@ -17,6 +18,11 @@ export default function Home() {
         {/* Scanner Component */}
         <ScanScanner />
 
+        {/* Generator Component */}
+        <div className="mt-12">
+          <ScanGenerator />
+        </div>
+
         {/* Features */}
         <div className="mt-16 grid grid-cols-1 gap-8 sm:grid-cols-3">
           <div className="text-center">
@@ -0,0 +1,194 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Download, Loader2, CircleCheck, CircleX, CircleMinus, Clock, X, RotateCcw } from 'lucide-react';
+import {
+  BatchItem,
+  BatchItemStatus,
+  batchToCsv,
+  batchToJson,
+  createBatchItems,
+  downloadTextFile,
+  runBatch
+} from '@/lib/scan-batch';
+import { getStrategyPlan } from '@/lib/scan-strategy-registry';
+import { saveScanToHistory } from '@/lib/scan-history';
+
+interface ScanBatchProps {
+  files: File[];
+  onReset: () => void;
+  concurrency?: number;
+}
+
+const statusLabels: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  scanning: 'Scanning',
+  done: 'Found',
+  'not-found': 'No QR code',
+  error: 'Error',
+  cancelled: 'Cancelled'
+};
+
+export default function ScanBatch({ files, onReset, concurrency = 2 }: ScanBatchProps) {
+  const [items, setItems] = useState<BatchItem[]>(() => createBatchItems(files));
+  const [isRunning, setIsRunning] = useState(true);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const queued = createBatchItems(files);
+
+    runBatch(queued, {
+      concurrency,
+      strategies: getStrategyPlan({ includeSearch: true }),
+      signal: controller.signal,
+      onUpdate: (updated) => {
+        if (abortControllerRef.current !== controller) return;
+        if (updated.status === 'done' && updated.content && updated.rawData) {
+          saveScanToHistory({ content: updated.content, rawData: updated.rawData, strategy: updated.strategy });
+        }
+        setItems(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+      }
+    }).finally(() => {
+      if (abortControllerRef.current === controller) {
+        setIsRunning(false);
+      }
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [files, concurrency]);
+
+  const cancelBatch = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const exportCsv = useCallback(() => {
+    downloadTextFile(batchToCsv(items), 'qr-scan-results.csv', 'text/csv;charset=utf-8');
+  }, [items]);
+
+  const exportJson = useCallback(() => {
+    downloadTextFile(batchToJson(items), 'qr-scan-results.json', 'application/json');
+  }, [items]);
+
+  const completed = items.filter(item => item.status !== 'queued' && item.status !== 'scanning').length;
+  const found = items.filter(item => item.status === 'done').length;
+
+  const renderStatus = (status: BatchItemStatus) => {
+    const icons: Record<BatchItemStatus, React.ReactNode> = {
+      queued: <Clock strokeWidth={1.25} className="h-4 w-4 text-gray-400" />,
+      scanning: <Loader2 strokeWidth={1.25} className="h-4 w-4 animate-spin text-blue-600" />,
+      done: <CircleCheck strokeWidth={1.25} className="h-4 w-4 text-green-600" />,
+      'not-found': <CircleMinus strokeWidth={1.25} className="h-4 w-4 text-amber-500" />,
+      error: <CircleX strokeWidth={1.25} className="h-4 w-4 text-red-500" />,
+      cancelled: <CircleMinus strokeWidth={1.25} className="h-4 w-4 text-gray-400" />
+    };
+
+    return (
+      <span className="inline-flex items-center space-x-1.5">
+        {icons[status]}
+        <span>{statusLabels[status]}</span>
+      </span>
+    );
+  };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto" role="region" aria-label="Batch scan results">
+      <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">
+                Batch Scan
+              </h3>
+              <p className="text-sm text-gray-600" role="status" aria-live="polite">
+                {completed} of {items.length} images processed • {found} QR codes found
+              </p>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              {isRunning ? (
+                <button
+                  onClick={cancelBatch}
+                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600 transition-colors cursor-pointer"
+                >
+                  <X strokeWidth={1.25} className="h-4 w-4 mr-1" />
+                  Cancel
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={exportCsv}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600 transition-colors cursor-pointer"
+                  >
+                    <Download strokeWidth={1.25} className="h-4 w-4 mr-1" />
+                    CSV
+                  </button>
+                  <button
+                    onClick={exportJson}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600 transition-colors cursor-pointer"
+                  >
+                    <Download strokeWidth={1.25} className="h-4 w-4 mr-1" />
+                    JSON
+                  </button>
+                  <button
+                    onClick={onReset}
+                    className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600 transition-colors cursor-pointer"
+                  >
+                    <RotateCcw strokeWidth={1.25} className="h-4 w-4 mr-1" />
+                    Scan More
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Results Table */}
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {['File', 'Status', 'Type', 'Decoded Text', 'Strategy'].map(heading => (
+                  <th
+                    key={heading}
+                    scope="col"
+                    className="px-4 py-2 text-left text-xs font-medium text-gray-600 uppercase tracking-wide"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {items.map(item => (
+                <tr key={item.id}>
+                  <td className="px-4 py-2 text-sm text-gray-900 max-w-[12rem] truncate" title={item.file.name}>
+                    {item.file.name}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700 whitespace-nowrap">
+                    {renderStatus(item.status)}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700 whitespace-nowrap">
+                    {item.content?.type ?? ''}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700 max-w-md break-all">
+                    {item.rawData ?? (
+                      item.error && <span className="text-red-600">{item.error}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-500 whitespace-nowrap">
+                    {item.strategy ?? ''}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { SwitchCamera, Flashlight, FlashlightOff, X, Loader2 } from 'lucide-react';
+import {
+  CameraFacing,
+  isTorchSupported,
+  listCameras,
+  scanVideoFrames,
+  setTorch,
+  startCamera,
+  stopCamera
+} from '@/lib/scan-camera';
+import { QRResult } from '@/lib/scan-preprocessing';
+
+interface ScanCameraProps {
+  onResult: (result: QRResult) => void;
+  onCancel: () => void;
+  onError: (error: string) => void;
+  intervalMs?: number;
+}
+
+export default function ScanCamera({
+  onResult,
+  onCancel,
+  onError,
+  intervalMs
+}: ScanCameraProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [facingMode, setFacingMode] = useState<CameraFacing>('environment');
+  const [hasMultipleCameras, setHasMultipleCameras] = useState(false);
+  const [torchAvailable, setTorchAvailable] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [isStarting, setIsStarting] = useState(true);
+
+  useEffect(() => {
+    listCameras()
+      .then(cameras => setHasMultipleCameras(cameras.length > 1))
+      .catch(() => setHasMultipleCameras(false));
+  }, []);
+
+  useEffect(() => {
+    let stopScanning: (() => void) | null = null;
+    let cancelled = false;
+
+    const start = async () => {
+      setIsStarting(true);
+      try {
+        const stream = await startCamera({ facingMode });
+
+        if (cancelled) {
+          stopCamera(stream);
+          return;
+        }
+
+        streamRef.current = stream;
+        setTorchAvailable(isTorchSupported(stream));
+        setTorchOn(false);
+
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = stream;
+        await video.play();
+        setIsStarting(false);
+
+        stopScanning = scanVideoFrames(video, {
+          intervalMs,
+          onResult,
+          onError: error => console.warn('Frame scan failed:', error)
+        });
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Error starting camera:', error);
+        onError(
+          error instanceof DOMException && error.name === 'NotAllowedError'
+            ? 'Camera access was denied. Please allow camera access or upload an image instead.'
+            : 'Could not start the camera. Please try again or upload an image instead.'
+        );
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      stopScanning?.();
+      stopCamera(streamRef.current);
+      streamRef.current = null;
+    };
+  }, [facingMode, intervalMs, onResult, onError]);
+
+  const toggleFacingMode = useCallback(() => {
+    setFacingMode(prev => (prev === 'environment' ? 'user' : 'environment'));
+  }, []);
+
+  const toggleTorch = useCallback(async () => {
+    if (!streamRef.current) return;
+    try {
+      await setTorch(streamRef.current, !torchOn);
+      setTorchOn(!torchOn);
+    } catch (error) {
+      console.warn('Failed to toggle torch:', error);
+    }
+  }, [torchOn]);
+
+  return (
+    <div className="w-full max-w-lg mx-auto">
+      <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
+        <div className="relative bg-black aspect-[4/3]">
+          <video
+            ref={videoRef}
+            className="h-full w-full object-cover"
+            playsInline
+            muted
+            aria-label="Camera preview"
+          />
+
+          {/* Viewfinder */}
+          <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+            <div className="h-2/3 aspect-square rounded-lg border-2 border-white/80" />
+          </div>
+
+          {isStarting && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <Loader2 strokeWidth={1.25} className="animate-spin h-8 w-8 text-white" />
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between px-4 py-3">
+          <p className="text-sm text-gray-600" role="status" aria-live="polite">
+            {isStarting ? 'Starting camera...' : 'Point the camera at a QR code'}
+          </p>
+
+          <div className="flex items-center space-x-2">
+            {torchAvailable && (
+              <button
+                onClick={toggleTorch}
+                className="p-2 text-gray-500 hover:text-gray-700 transition-colors cursor-pointer"
+                aria-label={torchOn ? 'Turn torch off' : 'Turn torch on'}
+                aria-pressed={torchOn}
+              >
+                {torchOn ? (
+                  <FlashlightOff strokeWidth={1.25} className="h-5 w-5" />
+                ) : (
+                  <Flashlight strokeWidth={1.25} className="h-5 w-5" />
+                )}
+              </button>
+            )}
+
+            {hasMultipleCameras && (
+              <button
+                onClick={toggleFacingMode}
+                className="p-2 text-gray-500 hover:text-gray-700 transition-colors cursor-pointer"
+                aria-label="Switch camera"
+              >
+                <SwitchCamera strokeWidth={1.25} className="h-5 w-5" />
+              </button>
+            )}
+
+            <button
+              onClick={onCancel}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600 transition-colors cursor-pointer"
+            >
+              <X strokeWidth={1.25} className="h-4 w-4 mr-1" />
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
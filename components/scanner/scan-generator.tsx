@@ -0,0 +1,383 @@
+'use client';
+
+import { useState, useMemo, useCallback } from 'react';
+import { Download, CircleCheck, CircleX, Loader2, ScanLine } from 'lucide-react';
+import {
+  ErrorCorrectionLevel,
+  GeneratorInput,
+  RoundTripResult,
+  WifiSecurity,
+  buildPayload,
+  encodeQR,
+  generatorTypes,
+  matrixToPath,
+  renderPng,
+  renderSvg,
+  verifyRoundTrip
+} from '@/lib/scan-generator';
+import { downloadBlob, downloadTextFile } from '@/lib/scan-batch';
+
+type GeneratorType = GeneratorInput['type'];
+
+interface FieldDefinition {
+  name: string;
+  label: string;
+  type?: 'text' | 'textarea' | 'number' | 'select' | 'checkbox';
+  options?: string[];
+  placeholder?: string;
+}
+
+const typeLabels: Record<GeneratorType, string> = {
+  url: 'Website',
+  text: 'Text',
+  email: 'Email',
+  phone: 'Phone',
+  sms: 'SMS',
+  wifi: 'WiFi',
+  location: 'Location',
+  vcard: 'Contact'
+};
+
+const formFields: Record<GeneratorType, FieldDefinition[]> = {
+  url: [{ name: 'url', label: 'URL', placeholder: 'https://example.com' }],
+  text: [{ name: 'text', label: 'Text', type: 'textarea' }],
+  email: [
+    { name: 'to', label: 'To', placeholder: 'name@example.com' },
+    { name: 'subject', label: 'Subject' },
+    { name: 'body', label: 'Body', type: 'textarea' }
+  ],
+  phone: [{ name: 'phone', label: 'Phone number', placeholder: '+49 30 1234567' }],
+  sms: [
+    { name: 'number', label: 'Phone number' },
+    { name: 'message', label: 'Message', type: 'textarea' }
+  ],
+  wifi: [
+    { name: 'ssid', label: 'Network name (SSID)' },
+    { name: 'security', label: 'Security', type: 'select', options: ['WPA', 'WEP', 'nopass'] },
+    { name: 'password', label: 'Password' },
+    { name: 'hidden', label: 'Hidden network', type: 'checkbox' }
+  ],
+  location: [
+    { name: 'latitude', label: 'Latitude', type: 'number', placeholder: '52.5200' },
+    { name: 'longitude', label: 'Longitude', type: 'number', placeholder: '13.4050' }
+  ],
+  vcard: [
+    { name: 'given', label: 'First name' },
+    { name: 'family', label: 'Last name' },
+    { name: 'organization', label: 'Organization' },
+    { name: 'title', label: 'Title' },
+    { name: 'phone', label: 'Phone' },
+    { name: 'email', label: 'Email' },
+    { name: 'url', label: 'Website' },
+    { name: 'street', label: 'Street' },
+    { name: 'zip', label: 'Postal code' },
+    { name: 'city', label: 'City' },
+    { name: 'country', label: 'Country' },
+    { name: 'notes', label: 'Notes', type: 'textarea' }
+  ]
+};
+
+function toGeneratorInput(type: GeneratorType, fields: Record<string, string>): GeneratorInput | null {
+  const value = (name: string) => fields[name]?.trim() ?? '';
+
+  switch (type) {
+    case 'url':
+      return value('url') ? { type, url: value('url') } : null;
+
+    case 'text':
+      return fields.text ? { type, text: fields.text } : null;
+
+    case 'email':
+      return value('to') ? { type, to: value('to'), subject: value('subject'), body: fields.body } : null;
+
+    case 'phone':
+      return value('phone') ? { type, phone: value('phone') } : null;
+
+    case 'sms':
+      return value('number') ? { type, number: value('number'), message: fields.message } : null;
+
+    case 'wifi':
+      return value('ssid') ? {
+        type,
+        ssid: fields.ssid,
+        security: (fields.security || 'WPA') as WifiSecurity,
+        password: fields.password,
+        hidden: fields.hidden === 'true'
+      } : null;
+
+    case 'location': {
+      const latitude = parseFloat(value('latitude'));
+      const longitude = parseFloat(value('longitude'));
+      if (isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+      return { type, latitude, longitude };
+    }
+
+    case 'vcard': {
+      if (!value('given') && !value('family') && !value('organization')) return null;
+      const hasAddress = value('street') || value('city') || value('zip') || value('country');
+
+      return {
+        type,
+        contact: {
+          name: { given: value('given') || undefined, family: value('family') || undefined },
+          organization: value('organization') || value('title')
+            ? { name: value('organization') || undefined, title: value('title') || undefined }
+            : undefined,
+          phones: value('phone') ? [{ type: 'cell', value: value('phone') }] : undefined,
+          emails: value('email') ? [{ type: 'default', value: value('email') }] : undefined,
+          urls: value('url') ? [{ type: 'default', value: value('url') }] : undefined,
+          addresses: hasAddress ? [{
+            type: 'default',
+            street: value('street') || undefined,
+            zip: value('zip') || undefined,
+            city: value('city') || undefined,
+            country: value('country') || undefined
+          }] : undefined,
+          notes: value('notes') || undefined,
+          unmappedFields: {}
+        }
+      };
+    }
+  }
+}
+
+export default function ScanGenerator() {
+  const [type, setType] = useState<GeneratorType>('url');
+  const [fields, setFields] = useState<Record<string, string>>({});
+  const [errorCorrection, setErrorCorrection] = useState<ErrorCorrectionLevel>('M');
+  const [roundTrip, setRoundTrip] = useState<(RoundTripResult & { payload: string }) | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const generated = useMemo(() => {
+    const input = toGeneratorInput(type, fields);
+    if (!input) return null;
+
+    try {
+      const payload = buildPayload(input);
+      return { payload, matrix: encodeQR(payload, errorCorrection), error: null };
+    } catch (error) {
+      return { payload: '', matrix: null, error: error instanceof Error ? error.message : 'Could not encode payload' };
+    }
+  }, [type, fields, errorCorrection]);
+
+  const updateField = useCallback((name: string, value: string) => {
+    setFields(prev => ({ ...prev, [name]: value }));
+  }, []);
+
+  const changeType = useCallback((next: GeneratorType) => {
+    setType(next);
+    setFields({});
+  }, []);
+
+  const downloadPng = useCallback(async () => {
+    if (!generated?.matrix) return;
+    downloadBlob(await renderPng(generated.matrix), `qr-${type}.png`);
+  }, [generated, type]);
+
+  const downloadSvg = useCallback(() => {
+    if (!generated?.matrix) return;
+    downloadTextFile(renderSvg(generated.matrix), `qr-${type}.svg`, 'image/svg+xml');
+  }, [generated, type]);
+
+  const verify = useCallback(async () => {
+    if (!generated?.matrix) return;
+    setIsVerifying(true);
+    try {
+      const result = await verifyRoundTrip(generated.payload, generated.matrix);
+      setRoundTrip({ ...result, payload: generated.payload });
+    } catch (error) {
+      console.error('Round-trip check failed:', error);
+      setRoundTrip({ ok: false, decoded: null, payload: generated.payload });
+    } finally {
+      setIsVerifying(false);
+    }
+  }, [generated]);
+
+  const renderField = (field: FieldDefinition) => {
+    const id = `generator-${type}-${field.name}`;
+    const inputClass = 'mt-1 w-full rounded-md border border-gray-300 py-1.5 px-3 text-sm text-gray-900 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600';
+
+    if (field.type === 'checkbox') {
+      return (
+        <label key={field.name} htmlFor={id} className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            id={id}
+            type="checkbox"
+            checked={fields[field.name] === 'true'}
+            onChange={(e) => updateField(field.name, String(e.target.checked))}
+            className="h-4 w-4 rounded border-gray-300"
+          />
+          <span>{field.label}</span>
+        </label>
+      );
+    }
+
+    return (
+      <div key={field.name}>
+        <label htmlFor={id} className="block text-sm font-medium text-gray-700">
+          {field.label}
+        </label>
+        {field.type === 'textarea' ? (
+          <textarea
+            id={id}
+            rows={3}
+            value={fields[field.name] ?? ''}
+            onChange={(e) => updateField(field.name, e.target.value)}
+            className={inputClass}
+          />
+        ) : field.type === 'select' ? (
+          <select
+            id={id}
+            value={fields[field.name] ?? field.options?.[0]}
+            onChange={(e) => updateField(field.name, e.target.value)}
+            className={inputClass}
+          >
+            {field.options?.map(option => (
+              <option key={option} value={option}>{option === 'nopass' ? 'None' : option}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            id={id}
+            type={field.type === 'number' ? 'number' : 'text'}
+            step={field.type === 'number' ? 'any' : undefined}
+            value={fields[field.name] ?? ''}
+            placeholder={field.placeholder}
+            onChange={(e) => updateField(field.name, e.target.value)}
+            className={inputClass}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const matrix = generated?.matrix;
+  const viewBoxSize = matrix ? matrix.size + 8 : 0;
+  const roundTripCurrent = roundTrip && roundTrip.payload === generated?.payload ? roundTrip : null;
+
+  return (
+    <div className="w-full max-w-4xl mx-auto" role="region" aria-label="QR code generator">
+      <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">
+            Generate QR Code
+          </h3>
+          <div className="mt-3 flex flex-wrap gap-2" role="tablist" aria-label="Content type">
+            {generatorTypes.map(option => (
+              <button
+                key={option}
+                role="tab"
+                aria-selected={type === option}
+                onClick={() => changeType(option)}
+                className={`rounded-full px-3 py-1 text-xs font-medium transition-colors cursor-pointer ${
+                  type === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {typeLabels[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 gap-6 p-6 md:grid-cols-2">
+          {/* Form */}
+          <div className="space-y-4">
+            {formFields[type].map(renderField)}
+
+            <div>
+              <label htmlFor="generator-ec" className="block text-sm font-medium text-gray-700">
+                Error correction
+              </label>
+              <select
+                id="generator-ec"
+                value={errorCorrection}
+                onChange={(e) => setErrorCorrection(e.target.value as ErrorCorrectionLevel)}
+                className="mt-1 w-full rounded-md border border-gray-300 py-1.5 px-3 text-sm text-gray-900 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600"
+              >
+                <option value="L">Low (7%)</option>
+                <option value="M">Medium (15%)</option>
+                <option value="Q">Quartile (25%)</option>
+                <option value="H">High (30%)</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="flex flex-col items-center">
+            {matrix ? (
+              <>
+                <svg
+                  viewBox={`0 0 ${viewBoxSize} ${viewBoxSize}`}
+                  className="h-56 w-56 rounded-lg border border-gray-200"
+                  shapeRendering="crispEdges"
+                  role="img"
+                  aria-label="Generated QR code"
+                >
+                  <rect width="100%" height="100%" fill="#ffffff" />
+                  <path fill="#000000" d={matrixToPath(matrix)} />
+                </svg>
+                <p className="mt-2 text-xs text-gray-500">
+                  Version {matrix.version} • {matrix.size}×{matrix.size} modules
+                </p>
+
+                <div className="mt-4 flex flex-wrap justify-center gap-2">
+                  <button
+                    onClick={downloadPng}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600 transition-colors cursor-pointer"
+                  >
+                    <Download strokeWidth={1.25} className="h-4 w-4 mr-1" />
+                    PNG
+                  </button>
+                  <button
+                    onClick={downloadSvg}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600 transition-colors cursor-pointer"
+                  >
+                    <Download strokeWidth={1.25} className="h-4 w-4 mr-1" />
+                    SVG
+                  </button>
+                  <button
+                    onClick={verify}
+                    disabled={isVerifying}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600 transition-colors cursor-pointer disabled:opacity-50"
+                  >
+                    {isVerifying ? (
+                      <Loader2 strokeWidth={1.25} className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <ScanLine strokeWidth={1.25} className="h-4 w-4 mr-1" />
+                    )}
+                    Verify
+                  </button>
+                </div>
+
+                {roundTripCurrent && (
+                  <p
+                    className={`mt-3 inline-flex items-center text-sm ${roundTripCurrent.ok ? 'text-green-700' : 'text-red-700'}`}
+                    role="status"
+                  >
+                    {roundTripCurrent.ok ? (
+                      <CircleCheck strokeWidth={1.25} className="h-4 w-4 mr-1" />
+                    ) : (
+                      <CircleX strokeWidth={1.25} className="h-4 w-4 mr-1" />
+                    )}
+                    {roundTripCurrent.ok ? 'Scans back to the exact payload' : 'Decoded content does not match the payload'}
+                  </p>
+                )}
+              </>
+            ) : (
+              <div className="flex h-56 w-56 items-center justify-center rounded-lg border-2 border-dashed border-gray-300 p-4 text-center text-sm text-gray-500">
+                {generated?.error ?? 'Fill in the form to generate a QR code'}
+              </div>
+            )}
+
+            {generated?.payload && (
+              <pre className="mt-4 w-full overflow-x-auto rounded-md bg-gray-50 p-3 text-xs text-gray-700 whitespace-pre-wrap break-all">
+                {generated.payload}
+              </pre>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Search, Trash2, History, QrCode } from 'lucide-react';
+import { ContentType } from '@/lib/scan-content-utils';
+import {
+  HistoryEntry,
+  clearHistory,
+  deleteHistoryEntry,
+  getHistoryEntries,
+  isHistoryEnabled,
+  setHistoryEnabled
+} from '@/lib/scan-history';
+import { Switch } from '@/components/catalyst/switch';
+import ScanResultDisplay from './scan-result-display';
+
+interface ScanHistoryProps {
+  onClose: () => void;
+}
+
+const typeOptions: Array<{ value: ContentType | ''; label: string }> = [
+  { value: '', label: 'All types' },
+  { value: 'url', label: 'Website' },
+  { value: 'vcard', label: 'Contact' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'sms', label: 'SMS' },
+  { value: 'wifi', label: 'WiFi' },
+  { value: 'location', label: 'Location' },
+  { value: 'event', label: 'Event' },
+  { value: 'epc', label: 'SEPA Payment' },
+  { value: 'swiss-qr', label: 'Swiss QR-bill' },
+  { value: 'crypto', label: 'Crypto Payment' },
+  { value: 'text', label: 'Text' }
+];
+
+export default function ScanHistory({ onClose }: ScanHistoryProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<ContentType | ''>('');
+  const [selected, setSelected] = useState<HistoryEntry | null>(null);
+  const [enabled, setEnabled] = useState(isHistoryEnabled);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getHistoryEntries({ query, type: typeFilter || undefined })
+      .then(result => {
+        if (!cancelled) {
+          setEntries(result);
+          setError(null);
+        }
+      })
+      .catch(loadError => {
+        console.error('Failed to load history:', loadError);
+        if (!cancelled) setError('Scan history is not available in this browser.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, typeFilter, refreshKey]);
+
+  const toggleEnabled = useCallback((checked: boolean) => {
+    setHistoryEnabled(checked);
+    setEnabled(checked);
+  }, []);
+
+  const handleDelete = useCallback(async (id: number) => {
+    try {
+      await deleteHistoryEntry(id);
+      setRefreshKey(key => key + 1);
+    } catch (deleteError) {
+      console.error('Failed to delete scan:', deleteError);
+      setError('The scan could not be deleted. Please try again.');
+    }
+  }, []);
+
+  const handleClear = useCallback(async () => {
+    if (!window.confirm('Delete all saved scans? This cannot be undone.')) return;
+    try {
+      await clearHistory();
+      setRefreshKey(key => key + 1);
+    } catch (clearError) {
+      console.error('Failed to clear history:', clearError);
+      setError('The scan history could not be cleared. Please try again.');
+    }
+  }, []);
+
+  const formatTimestamp = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+  if (selected) {
+    return (
+      <div className="w-full max-w-4xl mx-auto">
+        <button
+          onClick={() => setSelected(null)}
+          className="mb-4 inline-flex items-center text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors cursor-pointer"
+        >
+          <ArrowLeft strokeWidth={1.25} className="h-4 w-4 mr-1" />
+          Back to history
+        </button>
+        <ScanResultDisplay result={selected.content} onReset={() => setSelected(null)} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-4xl mx-auto" role="region" aria-label="Scan history">
+      <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <History strokeWidth={1.25} className="h-5 w-5 text-blue-600" />
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">
+                  Scan History
+                </h3>
+                <p className="text-sm text-gray-600">
+                  Stored only in this browser
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-3">
+              <span className="text-sm font-medium text-gray-700">
+                Save scans
+              </span>
+              <Switch
+                checked={enabled}
+                onChange={toggleEnabled}
+                color="blue"
+                aria-label="Save scans to history"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="px-6 py-3 border-b border-gray-200 flex flex-col gap-3 sm:flex-row">
+          <div className="relative flex-1">
+            <Search strokeWidth={1.25} className="pointer-events-none absolute left-2.5 top-2.5 h-4 w-4 text-gray-400" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search scans"
+              aria-label="Search scans"
+              className="w-full rounded-md border border-gray-300 py-1.5 pl-8 pr-3 text-sm text-gray-900 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600"
+            />
+          </div>
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as ContentType | '')}
+            aria-label="Filter by content type"
+            className="rounded-md border border-gray-300 py-1.5 px-3 text-sm text-gray-900 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600"
+          >
+            {typeOptions.map(option => (
+              <option key={option.value || 'all'} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Entries */}
+        {error ? (
+          <p className="px-6 py-8 text-center text-sm text-red-600">{error}</p>
+        ) : entries.length === 0 ? (
+          <p className="px-6 py-8 text-center text-sm text-gray-500">
+            {enabled ? 'No saved scans yet.' : 'Turn on "Save scans" to keep a history of your scans.'}
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {entries.map(entry => (
+              <li key={entry.id} className="flex items-center space-x-3 px-6 py-3">
+                <button
+                  onClick={() => setSelected(entry)}
+                  className="flex flex-1 min-w-0 items-center space-x-3 text-left cursor-pointer"
+                >
+                  {entry.thumbnail ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img
+                      src={entry.thumbnail}
+                      alt=""
+                      className="h-12 w-12 flex-shrink-0 rounded border border-gray-200 object-cover"
+                    />
+                  ) : (
+                    <div className="flex h-12 w-12 flex-shrink-0 items-center justify-center rounded border border-gray-200 bg-gray-50">
+                      <QrCode strokeWidth={1.25} className="h-5 w-5 text-gray-400" />
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-gray-900 truncate">
+                      {entry.content.displayText}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {entry.content.type} • {formatTimestamp(entry.timestamp)}
+                      {entry.strategy && ` • ${entry.strategy}`}
+                    </div>
+                  </div>
+                </button>
+                <button
+                  onClick={() => handleDelete(entry.id)}
+                  className="flex-shrink-0 p-1.5 text-gray-400 hover:text-red-600 transition-colors cursor-pointer"
+                  aria-label="Delete scan"
+                >
+                  <Trash2 strokeWidth={1.25} className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Footer */}
+        <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600 transition-colors cursor-pointer"
+          >
+            <ArrowLeft strokeWidth={1.25} className="h-4 w-4 mr-1" />
+            Back to scanner
+          </button>
+          {entries.length > 0 && (
+            <button
+              onClick={handleClear}
+              className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-red-600 hover:bg-red-50 transition-colors cursor-pointer"
+            >
+              <Trash2 strokeWidth={1.25} className="h-4 w-4 mr-1" />
+              Clear all
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
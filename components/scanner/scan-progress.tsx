@@ -1,19 +1,28 @@
 'use client';
 
-import { Loader2, CircleX, CircleCheck, Info } from 'lucide-react';
+import { Loader2, CircleX, CircleCheck, Info, X } from 'lucide-react';
+
+export interface ScanStage {
+  name: string;
+  threshold: number;
+}
 
 interface ScanProgressProps {
   progress: number;
   currentStrategy: string;
   isComplete: boolean;
   error?: string;
+  stages?: ScanStage[];
+  onCancel?: () => void;
 }
 
 export default function ScanProgress({ 
   progress, 
   currentStrategy, 
   isComplete, 
-  error 
+  error,
+  stages = [],
+  onCancel
 }: ScanProgressProps) {
   if (error) {
     return (
@@ -62,6 +71,8 @@ export default function ScanProgress({
     );
   }
 
+  const nextStageIndex = stages.findIndex(stage => progress < stage.threshold);
+
   return (
     <div className="mt-6" role="status" aria-live="polite">
       <div className="bg-white rounded-lg border border-gray-200 p-6">
@@ -69,9 +80,20 @@ export default function ScanProgress({
           <h3 className="text-lg font-semibold text-gray-900">
             Scanning QR Code...
           </h3>
-          <span className="text-sm font-medium text-gray-600">
-            {progress}%
-          </span>
+          <div className="flex items-center space-x-3">
+            <span className="text-sm font-medium text-gray-600">
+              {progress}%
+            </span>
+            {onCancel && (
+              <button
+                onClick={onCancel}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600 transition-colors cursor-pointer"
+              >
+                <X strokeWidth={1.25} className="h-4 w-4 mr-1" />
+                Cancel
+              </button>
+            )}
+          </div>
         </div>
         
         {/* Progress Bar */}
@@ -97,38 +119,32 @@ export default function ScanProgress({
         </div>
         
         {/* Processing Stages */}
-        <div className="mt-4 space-y-2">
-          <div className="text-xs text-gray-500">
-            Processing Stages:
-          </div>
-          <div className="flex flex-wrap gap-1">
-            {[
-              { name: 'Direct', threshold: 65 },
-              { name: 'Contrast', threshold: 70 },
-              { name: 'Histogram', threshold: 75 },
-              { name: 'Binary', threshold: 80 },
-              { name: 'Sharpen', threshold: 85 },
-              { name: 'Invert', threshold: 90 },
-              { name: 'Morph', threshold: 95 }
-            ].map(stage => (
-              <span
-                key={stage.name}
-                className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium transition-colors ${
-                  progress >= stage.threshold
-                    ? 'bg-green-100 text-green-800'
-                    : progress >= stage.threshold - 5
-                    ? 'bg-blue-100 text-blue-800'
-                    : 'bg-gray-100 text-gray-600'
-                }`}
-              >
-                {progress >= stage.threshold && (
-                  <CircleCheck strokeWidth={1.25} className="mr-1 h-2.5 w-2.5" />
-                )}
-                {stage.name}
-              </span>
-            ))}
+        {stages.length > 0 && (
+          <div className="mt-4 space-y-2">
+            <div className="text-xs text-gray-500">
+              Processing Stages:
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {stages.map((stage, index) => (
+                <span
+                  key={`${stage.name}-${index}`}
+                  className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium transition-colors ${
+                    progress >= stage.threshold
+                      ? 'bg-green-100 text-green-800'
+                      : index === nextStageIndex
+                      ? 'bg-blue-100 text-blue-800'
+                      : 'bg-gray-100 text-gray-600'
+                  }`}
+                >
+                  {progress >= stage.threshold && (
+                    <CircleCheck strokeWidth={1.25} className="mr-1 h-2.5 w-2.5" />
+                  )}
+                  {stage.name}
+                </span>
+              ))}
+            </div>
           </div>
-        </div>
+        )}
         
         {/* Tips */}
         <div className="mt-4 p-3 bg-blue-50 rounded-md">
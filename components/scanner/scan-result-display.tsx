@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { 
   Clipboard,
   Phone,
@@ -9,20 +9,122 @@ import {
   Check,
   User,
   Building,
-  Globe
+  Globe,
+  QrCode,
+  Cake,
+  Clock,
+  Download,
+  Wifi,
+  Lock,
+  KeyRound,
+  Eye,
+  EyeOff,
+  CalendarDays,
+  CalendarPlus,
+  Repeat,
+  Landmark,
+  Banknote,
+  Hash,
+  MessageSquare,
+  Wallet,
+  Zap,
+  CircleAlert,
+  ExternalLink,
+  ShieldAlert,
+  ShieldCheck,
+  ShieldEllipsis,
+  SlidersHorizontal,
+  Crosshair,
+  Mountain,
+  Target,
+  Search,
+  FileText
 } from 'lucide-react';
-import { ParsedContent, VCardContact } from '@/lib/scan-content-utils';
+import { ContentAction, ParsedContent, VCardContact, assertNever, getContentHandlerFor, getContentLabel, withPhoneRegion } from '@/lib/scan-content-utils';
+import { QRResult, getLocationBounds } from '@/lib/scan-preprocessing';
+import { buildVCardPayload } from '@/lib/scan-vcard';
+import { describeWifiSecurity } from '@/lib/scan-wifi';
+import { CalendarEvent, buildIcsFile, describeRecurrence, formatEventTime } from '@/lib/scan-calendar';
+import { formatIban, formatPaymentAmount, formatReference } from '@/lib/scan-payment';
+import { formatCryptoAmount } from '@/lib/scan-crypto';
+import { UrlRiskLevel } from '@/lib/scan-url-safety';
+import { getInvalidRecipients } from '@/lib/scan-email';
+import { formatOtpCode, generateHotp, generateTotp } from '@/lib/scan-otp';
+import { getDefaultPhoneRegion, getPhoneRegions, getRegionName, setDefaultPhoneRegion } from '@/lib/scan-phone';
+import { downloadTextFile } from '@/lib/scan-batch';
+import { detectPlatform, executeAction, getActionSupport, getMapProvider, setMapProvider } from '@/lib/scan-actions';
+import { MAP_PROVIDERS, MapProvider, formatCoordinates, hasCoordinates } from '@/lib/scan-geo';
 import { Switch } from '@/components/catalyst/switch';
 
+export interface DetectedCode {
+  content: ParsedContent;
+  qr: QRResult;
+  region: string;
+}
+
 interface ScanResultDisplayProps {
   result: ParsedContent;
+  codes?: DetectedCode[];
   onReset: () => void;
   hideResetButton?: boolean;
 }
 
-export default function ScanResultDisplay({ result, onReset, hideResetButton = false }: ScanResultDisplayProps) {
+const riskStyles: Record<UrlRiskLevel, { label: string; panel: string; text: string }> = {
+  low: { label: 'No warning signs found', panel: 'bg-green-50 border-green-200', text: 'text-green-800' },
+  medium: { label: 'Check this link before opening', panel: 'bg-yellow-50 border-yellow-200', text: 'text-yellow-800' },
+  high: { label: 'This link looks dangerous', panel: 'bg-red-50 border-red-200', text: 'text-red-800' }
+};
+
+const actionIcons: Record<string, typeof Clipboard> = {
+  phone: Phone,
+  envelope: Mail,
+  'chat-bubble-left': MessageSquare,
+  'map-pin': MapPin,
+  'external-link': ExternalLink,
+  key: KeyRound,
+  clipboard: Clipboard
+};
+
+const locationSources: Record<string, string> = {
+  google: 'From a Google Maps link',
+  apple: 'From an Apple Maps link',
+  openstreetmap: 'From an OpenStreetMap link'
+};
+
+const formatLabels: Record<NonNullable<VCardContact['format']>, string> = {
+  vcard: 'vCard',
+  mecard: 'MeCard',
+  bizcard: 'BIZCARD'
+};
+
+export default function ScanResultDisplay({ result: primaryResult, codes = [], onReset, hideResetButton = false }: ScanResultDisplayProps) {
   const [copiedField, setCopiedField] = useState<string | null>(null);
   const [isCompactMode, setIsCompactMode] = useState(true);
+  const [selectedCode, setSelectedCode] = useState(0);
+  const [showPassword, setShowPassword] = useState(false);
+  const [confirmingOpen, setConfirmingOpen] = useState(false);
+  const [showSecret, setShowSecret] = useState(false);
+  // Region picked here for numbers without a country code; null keeps the parsed result
+  const [phoneRegion, setPhoneRegion] = useState<string | null>(null);
+  // Fixed at mount so expiry checks stay pure during render
+  const [openedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(openedAt);
+  const [platform] = useState(detectPlatform);
+  const [mapProvider, setMapProviderChoice] = useState<MapProvider>(() => getMapProvider());
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const selectedResult = codes.length > 1 ? codes[selectedCode].content : primaryResult;
+  // The picked region changes what the actions dial, not only what is shown
+  const result = phoneRegion && selectedResult.type === 'phone' ? withPhoneRegion(selectedResult, phoneRegion) : selectedResult;
+  const contactFormat = result.type === 'vcard' ? result.data.format : undefined;
+
+  // Tick once a second while a TOTP code is on screen
+  useEffect(() => {
+    if (result.type !== 'otp') return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [result.type]);
 
   const handleCopy = async (value: string, fieldId: string) => {
     try {
@@ -34,23 +136,20 @@ export default function ScanResultDisplay({ result, onReset, hideResetButton = f
     }
   };
 
-  const getTypeLabel = (type: string) => {
-    const labels: Record<string, string> = {
-      vcard: 'Contact Information',
-      url: 'Website',
-      email: 'Email Address',
-      phone: 'Phone Number',
-      wifi: 'WiFi Network',
-      location: 'Location',
-      sms: 'SMS Message',
-      text: 'Text Content'
-    };
-    return labels[type] || 'Content';
+  const downloadVCard = (contact: VCardContact) => {
+    const fileName = (contact.name?.formatted || contact.organization?.name || 'contact')
+      .replace(/[^\p{L}\p{N} _-]/gu, '')
+      .trim() || 'contact';
+    downloadTextFile(buildVCardPayload(contact), `${fileName}.vcf`, 'text/vcard;charset=utf-8');
   };
 
   const getFieldCount = (contact: VCardContact) => {
     let count = 0;
     if (contact.name?.formatted) count++;
+    if (contact.nicknames) count += contact.nicknames.length;
+    if (contact.birthday) count++;
+    if (contact.geo) count++;
+    if (contact.timezone) count++;
     if (contact.organization?.title) count++;
     if (contact.organization?.name) count++;
     if (contact.emails) count += contact.emails.length;
@@ -65,7 +164,8 @@ export default function ScanResultDisplay({ result, onReset, hideResetButton = f
     label: string,
     value: string,
     fieldId: string,
-    subtitle?: string
+    subtitle?: string,
+    copyValue = value
   ) => {
     const isCopied = copiedField === fieldId;
     
@@ -80,7 +180,7 @@ export default function ScanResultDisplay({ result, onReset, hideResetButton = f
               <div className="text-sm font-medium text-gray-900">
                 {label}
               </div>
-              <div className="text-sm text-gray-600 mt-1 break-all">
+              <div className="text-sm text-gray-600 mt-1 break-all whitespace-pre-line">
                 {value}
               </div>
               {subtitle && (
@@ -91,7 +191,7 @@ export default function ScanResultDisplay({ result, onReset, hideResetButton = f
             </div>
           </div>
           <button
-            onClick={() => handleCopy(value, fieldId)}
+            onClick={() => handleCopy(copyValue, fieldId)}
             className="flex-shrink-0 p-1.5 text-gray-400 hover:text-gray-600 transition-colors cursor-pointer"
             aria-label={`Copy ${label}`}
           >
@@ -109,7 +209,7 @@ export default function ScanResultDisplay({ result, onReset, hideResetButton = f
   const renderVCardContent = () => {
     if (result.type !== 'vcard') return null;
     
-    const contact = result.data as VCardContact;
+    const contact = result.data;
 
     if (isCompactMode) {
       // Compact view - show grouped personal and company information
@@ -236,6 +336,24 @@ export default function ScanResultDisplay({ result, onReset, hideResetButton = f
       ));
     }
 
+    if (contact.nicknames && contact.nicknames.length > 0) {
+      fields.push(renderFieldCard(
+        <User strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Nickname',
+        contact.nicknames.join(', '),
+        'nickname'
+      ));
+    }
+
+    if (contact.birthday) {
+      fields.push(renderFieldCard(
+        <Cake strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Birthday',
+        contact.birthday,
+        'birthday'
+      ));
+    }
+
     if (contact.organization?.title) {
       fields.push(renderFieldCard(
         <Building strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
@@ -272,7 +390,8 @@ export default function ScanResultDisplay({ result, onReset, hideResetButton = f
           <Phone strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
           'Phone',
           phone.value,
-          `phone-${index}`
+          `phone-${index}`,
+          phone.region ? `${getRegionName(phone.region)} • ${phone.e164}` : undefined
         ));
       });
     }
@@ -302,6 +421,33 @@ export default function ScanResultDisplay({ result, onReset, hideResetButton = f
       });
     }
 
+    if (contact.geo) {
+      fields.push(renderFieldCard(
+        <MapPin strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Location',
+        `${contact.geo.latitude}, ${contact.geo.longitude}`,
+        'geo'
+      ));
+    }
+
+    if (contact.timezone) {
+      fields.push(renderFieldCard(
+        <Clock strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Time Zone',
+        contact.timezone,
+        'timezone'
+      ));
+    }
+
+    if (contact.notes) {
+      fields.push(renderFieldCard(
+        <Clipboard strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Notes',
+        contact.notes,
+        'notes'
+      ));
+    }
+
     // Additional Information section for unmapped fields
     const additionalFields: React.ReactNode[] = [];
     if (contact.unmappedFields && Object.keys(contact.unmappedFields).length > 0) {
@@ -315,8 +461,19 @@ export default function ScanResultDisplay({ result, onReset, hideResetButton = f
       });
     }
 
+    // Only embedded photos are shown; loading a remote URL would leak the scan to a third party
+    const photo = contact.photo?.uri.startsWith('data:image/') ? contact.photo.uri : null;
+
     return (
       <div className="space-y-3">
+        {photo && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={photo}
+            alt={contact.name?.formatted ? `Photo of ${contact.name.formatted}` : 'Contact photo'}
+            className="h-20 w-20 rounded-full border border-gray-200 object-cover"
+          />
+        )}
         {fields}
         {additionalFields.length > 0 && (
           <>
@@ -334,8 +491,912 @@ export default function ScanResultDisplay({ result, onReset, hideResetButton = f
     );
   };
 
+  const renderWifiContent = () => {
+    if (result.type !== 'wifi') return null;
+
+    const network = result.data;
+    const isPasswordCopied = copiedField === 'wifi-password';
+    const fields = [
+      renderFieldCard(
+        <Wifi strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Network Name',
+        network.ssid,
+        'wifi-ssid',
+        network.hidden ? 'Hidden network' : undefined
+      ),
+      renderFieldCard(
+        <Lock strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Security',
+        describeWifiSecurity(network.security),
+        'wifi-security'
+      )
+    ];
+
+    const eapFields: Array<[string, string | undefined]> = [
+      ['EAP Method', network.eap?.method],
+      ['Identity', network.eap?.identity],
+      ['Anonymous Identity', network.eap?.anonymousIdentity],
+      ['Phase 2 Authentication', network.eap?.phase2]
+    ];
+
+    eapFields.forEach(([label, value], index) => {
+      if (value) {
+        fields.push(renderFieldCard(
+          <User strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+          label,
+          value,
+          `wifi-eap-${index}`
+        ));
+      }
+    });
+
+    return (
+      <div className="space-y-3">
+        {fields[0]}
+        {network.password && (
+          <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+            <div className="flex items-start justify-between">
+              <div className="flex items-start space-x-3 flex-1 min-w-0">
+                <div className="flex-shrink-0 mt-0.5">
+                  <KeyRound strokeWidth={1.25} className="h-4 w-4 text-gray-500" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-gray-900">
+                    Password
+                  </div>
+                  <div className="text-sm text-gray-600 mt-1 break-all font-mono">
+                    {showPassword ? network.password : '•'.repeat(Math.min(network.password.length, 16))}
+                  </div>
+                </div>
+              </div>
+              <div className="flex flex-shrink-0 items-center">
+                <button
+                  onClick={() => setShowPassword(show => !show)}
+                  className="p-1.5 text-gray-400 hover:text-gray-600 transition-colors cursor-pointer"
+                  aria-label={showPassword ? 'Hide password' : 'Show password'}
+                  aria-pressed={showPassword}
+                >
+                  {showPassword ? (
+                    <EyeOff strokeWidth={1.25} className="h-4 w-4" />
+                  ) : (
+                    <Eye strokeWidth={1.25} className="h-4 w-4" />
+                  )}
+                </button>
+                <button
+                  onClick={() => handleCopy(network.password!, 'wifi-password')}
+                  className="p-1.5 text-gray-400 hover:text-gray-600 transition-colors cursor-pointer"
+                  aria-label="Copy Password"
+                >
+                  {isPasswordCopied ? (
+                    <Check strokeWidth={1.25} className="h-4 w-4 text-green-600" />
+                  ) : (
+                    <Clipboard strokeWidth={1.25} className="h-4 w-4" />
+                  )}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+        {fields.slice(1)}
+      </div>
+    );
+  };
+
+  const downloadEvent = (event: CalendarEvent) => {
+    const fileName = (event.summary || 'event').replace(/[^\p{L}\p{N} _-]/gu, '').trim() || 'event';
+    downloadTextFile(buildIcsFile(event), `${fileName}.ics`, 'text/calendar;charset=utf-8');
+  };
+
+  const renderEventContent = () => {
+    if (result.type !== 'event') return null;
+
+    const event = result.data;
+    const fields = [];
+    const time = formatEventTime(event);
+
+    if (event.summary) {
+      fields.push(renderFieldCard(
+        <CalendarDays strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Event',
+        event.summary,
+        'event-summary'
+      ));
+    }
+
+    if (time) {
+      fields.push(renderFieldCard(
+        <Clock strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'When',
+        time,
+        'event-time',
+        event.start?.timezone ? `Scheduled in ${event.start.timezone}` : undefined
+      ));
+    }
+
+    if (event.rrule) {
+      fields.push(renderFieldCard(
+        <Repeat strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Repeats',
+        describeRecurrence(event.rrule),
+        'event-rrule'
+      ));
+    }
+
+    if (event.location) {
+      fields.push(renderFieldCard(
+        <MapPin strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Location',
+        event.location,
+        'event-location'
+      ));
+    }
+
+    if (event.organizer) {
+      fields.push(renderFieldCard(
+        <User strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Organizer',
+        event.organizer,
+        'event-organizer'
+      ));
+    }
+
+    if (event.url) {
+      fields.push(renderFieldCard(
+        <Globe strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Website',
+        event.url,
+        'event-url'
+      ));
+    }
+
+    if (event.description) {
+      fields.push(renderFieldCard(
+        <Clipboard strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Description',
+        event.description,
+        'event-description'
+      ));
+    }
+
+    return <div className="space-y-3">{fields}</div>;
+  };
+
+  const renderPaymentContent = () => {
+    if (result.type !== 'epc' && result.type !== 'swiss-qr') return null;
+
+    const payment = result.data;
+    const amount = formatPaymentAmount(payment);
+    const fields = [];
+
+    const checkLabel = (valid: boolean | undefined, what: string) =>
+      valid === undefined ? undefined : valid ? `${what} check digits valid` : `${what} check digits invalid – verify before paying`;
+
+    fields.push(renderFieldCard(
+      <Building strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+      'Beneficiary',
+      payment.beneficiary.formatted,
+      'payment-beneficiary'
+    ));
+
+    fields.push(renderFieldCard(
+      <Landmark strokeWidth={1.25} className={`h-4 w-4 ${payment.ibanValid ? 'text-gray-500' : 'text-red-500'}`} />,
+      'IBAN',
+      formatIban(payment.iban),
+      'payment-iban',
+      checkLabel(payment.ibanValid, 'IBAN'),
+      payment.iban
+    ));
+
+    if (payment.bic) {
+      fields.push(renderFieldCard(
+        <Landmark strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'BIC',
+        payment.bic,
+        'payment-bic'
+      ));
+    }
+
+    fields.push(renderFieldCard(
+      <Banknote strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+      'Amount',
+      amount ?? `${payment.currency} – to be entered by payer`,
+      'payment-amount',
+      undefined,
+      payment.amount?.toFixed(2) ?? ''
+    ));
+
+    if (payment.reference) {
+      fields.push(renderFieldCard(
+        <Hash strokeWidth={1.25} className={`h-4 w-4 ${payment.referenceValid === false ? 'text-red-500' : 'text-gray-500'}`} />,
+        'Reference',
+        formatReference(payment.reference, payment.referenceType),
+        'payment-reference',
+        checkLabel(payment.referenceValid, payment.referenceType === 'QRR' ? 'QR reference' : 'Creditor reference'),
+        payment.reference
+      ));
+    }
+
+    if (payment.referenceMismatch) {
+      fields.push(
+        <div key="payment-reference-mismatch" className="flex items-center text-sm font-medium text-red-700">
+          <CircleAlert strokeWidth={1.25} className="h-4 w-4 mr-1.5 flex-shrink-0" />
+          {payment.referenceMismatch} – verify before paying
+        </div>
+      );
+    }
+
+    if (payment.remittanceText) {
+      fields.push(renderFieldCard(
+        <MessageSquare strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Message',
+        payment.remittanceText,
+        'payment-message'
+      ));
+    }
+
+    if (payment.purpose) {
+      fields.push(renderFieldCard(
+        <Clipboard strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Purpose Code',
+        payment.purpose,
+        'payment-purpose'
+      ));
+    }
+
+    if (payment.debtor) {
+      fields.push(renderFieldCard(
+        <User strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Payable By',
+        payment.debtor.formatted,
+        'payment-debtor'
+      ));
+    }
+
+    if (payment.billInformation) {
+      fields.push(renderFieldCard(
+        <Clipboard strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Billing Information',
+        payment.billInformation,
+        'payment-bill-information'
+      ));
+    }
+
+    return <div className="space-y-3">{fields}</div>;
+  };
+
+  const renderEmailContent = () => {
+    if (result.type !== 'email') return null;
+
+    const draft = result.data;
+    const invalid = getInvalidRecipients(draft);
+    const fields = [];
+
+    for (const [key, label] of [['to', 'To'], ['cc', 'Cc'], ['bcc', 'Bcc']] as const) {
+      const addresses = draft[key];
+      if (addresses.length === 0) continue;
+
+      const invalidAddresses = addresses.filter(address => invalid.includes(address));
+      fields.push(renderFieldCard(
+        <Mail strokeWidth={1.25} className={`h-4 w-4 ${invalidAddresses.length > 0 ? 'text-red-500' : 'text-gray-500'}`} />,
+        label,
+        addresses.join('\n'),
+        `email-${key}`,
+        invalidAddresses.length > 0 ? `Not a valid address: ${invalidAddresses.join(', ')}` : undefined,
+        addresses.join(', ')
+      ));
+    }
+
+    if (draft.subject) {
+      fields.push(renderFieldCard(
+        <MessageSquare strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Subject',
+        draft.subject,
+        'email-subject'
+      ));
+    }
+
+    if (draft.body) {
+      fields.push(renderFieldCard(
+        <FileText strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Message',
+        draft.body,
+        'email-body'
+      ));
+    }
+
+    return <div className="space-y-3">{fields}</div>;
+  };
+
+  const renderCryptoContent = () => {
+    if (result.type !== 'crypto') return null;
+
+    const payment = result.data;
+    const amount = formatCryptoAmount(payment);
+    const fields = [];
+
+    fields.push(renderFieldCard(
+      <Wallet strokeWidth={1.25} className={`h-4 w-4 ${payment.addressValid ? 'text-gray-500' : 'text-red-500'}`} />,
+      payment.addressType === 'Lightning invoice' ? 'Payee' : 'Destination',
+      payment.address,
+      'crypto-address',
+      [payment.addressType, payment.addressNote].filter(Boolean).join(' • ')
+    ));
+
+    if (payment.tokenContract) {
+      fields.push(renderFieldCard(
+        <Hash strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Token Contract',
+        payment.tokenContract,
+        'crypto-token'
+      ));
+    }
+
+    if (payment.amount) {
+      fields.push(renderFieldCard(
+        <Banknote strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Amount',
+        amount ?? payment.amount,
+        'crypto-amount',
+        undefined,
+        payment.amount
+      ));
+    }
+
+    const textFields: Array<[string, string | undefined]> = [
+      ['Label', payment.label],
+      ['Message', payment.message],
+      ['Description', payment.description]
+    ];
+
+    textFields.forEach(([label, value]) => {
+      if (value) {
+        fields.push(renderFieldCard(
+          <MessageSquare strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+          label,
+          value,
+          `crypto-${label.toLowerCase()}`
+        ));
+      }
+    });
+
+    if (payment.invoice && payment.invoice !== payment.address) {
+      fields.push(renderFieldCard(
+        <Zap strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Lightning Invoice',
+        payment.invoice,
+        'crypto-invoice'
+      ));
+    }
+
+    const isExpired = payment.expiresAt !== undefined && payment.expiresAt < openedAt;
+
+    return (
+      <div className="space-y-3">
+        {/* Summary first, so amount and destination are checked before anything is copied */}
+        <div className={`rounded-lg p-4 border ${payment.addressValid ? 'bg-blue-50 border-blue-200' : 'bg-red-50 border-red-200'}`}>
+          <div className="text-xs font-medium text-gray-600 uppercase tracking-wide">
+            {payment.network}
+          </div>
+          <div className="mt-1 text-2xl font-semibold text-gray-900">
+            {amount ?? 'Amount not specified'}
+          </div>
+          <div className="mt-1 text-sm text-gray-700 break-all">
+            to <span className="font-mono">{payment.address}</span>
+          </div>
+          {!payment.addressValid && (
+            <div className="mt-2 inline-flex items-center text-sm font-medium text-red-700">
+              <CircleAlert strokeWidth={1.25} className="h-4 w-4 mr-1" />
+              {payment.addressNote ?? 'This address failed validation. Do not send funds to it.'}
+            </div>
+          )}
+          {payment.expiresAt !== undefined && (
+            <div className={`mt-2 text-xs ${isExpired ? 'text-red-700' : 'text-gray-500'}`}>
+              {isExpired ? 'Expired' : 'Expires'} {new Date(payment.expiresAt).toLocaleString()}
+            </div>
+          )}
+        </div>
+        {fields}
+      </div>
+    );
+  };
+
+  const renderOtpContent = () => {
+    if (result.type !== 'otp') return null;
+
+    const account = result.data;
+    const totp = account.type === 'totp' ? generateTotp(account, now) : null;
+    const code = totp?.code ?? (account.type === 'hotp' ? generateHotp(account, account.counter ?? 0) : null);
+    const isSecretCopied = copiedField === 'otp-secret';
+
+    const fields = [];
+
+    if (account.issuer) {
+      fields.push(renderFieldCard(
+        <Building strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Issuer',
+        account.issuer,
+        'otp-issuer'
+      ));
+    }
+
+    if (account.account) {
+      fields.push(renderFieldCard(
+        <User strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Account',
+        account.account,
+        'otp-account'
+      ));
+    }
+
+    const parametersField = renderFieldCard(
+      <SlidersHorizontal strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+      'Parameters',
+      [
+        account.type === 'totp' ? `Time-based, every ${account.period}s` : `Counter-based, counter ${account.counter ?? 0}`,
+        account.algorithm,
+        `${account.digits} digits`
+      ].join(' • '),
+      'otp-parameters'
+    );
+
+    return (
+      <div className="space-y-3">
+        <div className={`rounded-lg p-4 border ${code ? 'bg-blue-50 border-blue-200' : 'bg-red-50 border-red-200'}`}>
+          <div className="text-xs font-medium text-gray-600 uppercase tracking-wide">
+            {account.type === 'totp' ? 'Current code' : 'Next code'}
+          </div>
+          {code ? (
+            <>
+              <div className="mt-1 text-3xl font-semibold font-mono tracking-wider text-gray-900" aria-live="polite">
+                {formatOtpCode(code)}
+              </div>
+              {totp && (
+                <div className="mt-1 text-xs text-gray-500">
+                  Changes in {totp.remaining}s. Compare it with your authenticator app after adding the account.
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="mt-2 inline-flex items-center text-sm font-medium text-red-700">
+              <CircleAlert strokeWidth={1.25} className="h-4 w-4 mr-1" />
+              No code can be computed from this secret.
+            </div>
+          )}
+          {account.warnings.length > 0 && (
+            <ul className="mt-2 ml-5 list-disc space-y-1 text-sm text-yellow-800">
+              {account.warnings.map(warning => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {fields}
+
+        <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+          <div className="flex items-start justify-between">
+            <div className="flex items-start space-x-3 flex-1 min-w-0">
+              <div className="flex-shrink-0 mt-0.5">
+                <ShieldEllipsis strokeWidth={1.25} className={`h-4 w-4 ${account.secretValid ? 'text-gray-500' : 'text-red-500'}`} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-gray-900">
+                  Secret Key
+                </div>
+                <div className="text-sm text-gray-600 mt-1 break-all font-mono">
+                  {showSecret ? account.secret.replace(/(.{4})(?=.)/g, '$1 ') : '•'.repeat(16)}
+                </div>
+                {!account.secretValid && (
+                  <div className="text-xs text-red-600 mt-1">
+                    Not valid base32
+                  </div>
+                )}
+              </div>
+            </div>
+            <div className="flex flex-shrink-0 items-center">
+              <button
+                onClick={() => setShowSecret(show => !show)}
+                className="p-1.5 text-gray-400 hover:text-gray-600 transition-colors cursor-pointer"
+                aria-label={showSecret ? 'Hide secret' : 'Show secret'}
+                aria-pressed={showSecret}
+              >
+                {showSecret ? (
+                  <EyeOff strokeWidth={1.25} className="h-4 w-4" />
+                ) : (
+                  <Eye strokeWidth={1.25} className="h-4 w-4" />
+                )}
+              </button>
+              <button
+                onClick={() => handleCopy(account.secret, 'otp-secret')}
+                className="p-1.5 text-gray-400 hover:text-gray-600 transition-colors cursor-pointer"
+                aria-label="Copy Secret"
+              >
+                {isSecretCopied ? (
+                  <Check strokeWidth={1.25} className="h-4 w-4 text-green-600" />
+                ) : (
+                  <Clipboard strokeWidth={1.25} className="h-4 w-4" />
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {parametersField}
+      </div>
+    );
+  };
+
+  const renderLocationContent = () => {
+    if (result.type !== 'location') return null;
+
+    const location = result.data;
+    const source = locationSources[location.source];
+
+    return (
+      <div className="space-y-3">
+        {location.label && renderFieldCard(
+          <MapPin strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+          'Place',
+          location.label,
+          'location-label'
+        )}
+
+        {hasCoordinates(location) ? (
+          <>
+            {renderFieldCard(
+              <Crosshair strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+              'Coordinates',
+              formatCoordinates(location.latitude, location.longitude),
+              'location-decimal',
+              source
+            )}
+            {renderFieldCard(
+              <Crosshair strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+              'Degrees, Minutes, Seconds',
+              formatCoordinates(location.latitude, location.longitude, 'dms'),
+              'location-dms'
+            )}
+          </>
+        ) : renderFieldCard(
+          <Search strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+          'Address Search',
+          location.query ?? '',
+          'location-query',
+          source
+        )}
+
+        {location.altitude !== undefined && renderFieldCard(
+          <Mountain strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+          'Altitude',
+          `${location.altitude} m`,
+          'location-altitude'
+        )}
+
+        {location.uncertainty !== undefined && renderFieldCard(
+          <Target strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+          'Accuracy',
+          `±${location.uncertainty} m`,
+          'location-uncertainty'
+        )}
+
+        {location.crs && renderFieldCard(
+          <Globe strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+          'Reference System',
+          location.crs,
+          'location-crs'
+        )}
+      </div>
+    );
+  };
+
+  const renderPhoneContent = () => {
+    if (result.type !== 'phone') return null;
+
+    const { number } = result.data;
+    const fields = [];
+
+    fields.push(renderFieldCard(
+      <Phone strokeWidth={1.25} className={`h-4 w-4 ${number.valid ? 'text-gray-500' : 'text-red-500'}`} />,
+      'Phone Number',
+      number.international ?? number.raw,
+      'phone-international',
+      number.valid ? number.regionName : 'Not a valid number for this country',
+      number.e164 ?? number.raw
+    ));
+
+    if (number.national && number.valid) {
+      fields.push(renderFieldCard(
+        <Phone strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'Within the Country',
+        number.national,
+        'phone-national'
+      ));
+    }
+
+    if (number.e164) {
+      fields.push(renderFieldCard(
+        <Hash strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+        'E.164',
+        number.e164,
+        'phone-e164'
+      ));
+    }
+
+    return (
+      <div className="space-y-3">
+        {fields}
+        {number.fromDefaultRegion && (
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+            <label htmlFor="phone-region">This number has no country code. Read it as a number from</label>
+            <select
+              id="phone-region"
+              value={phoneRegion ?? number.region ?? getDefaultPhoneRegion()}
+              onChange={(e) => {
+                setPhoneRegion(e.target.value);
+                setDefaultPhoneRegion(e.target.value);
+              }}
+              className="rounded-md border border-gray-300 py-1.5 px-3 text-sm text-gray-900 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600"
+            >
+              {getPhoneRegions().map(region => (
+                <option key={region} value={region}>{getRegionName(region)}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderUrlContent = () => {
+    if (result.type !== 'url') return null;
+
+    const { url, original, safety } = result.data;
+    const style = riskStyles[safety.riskLevel];
+    const openAction = result.actions.find(action => action.type === 'open');
+    const RiskIcon = safety.riskLevel === 'low' ? ShieldCheck : ShieldAlert;
+
+    const openUrl = () => {
+      if (openAction) runAction(openAction, 'open');
+      setConfirmingOpen(false);
+    };
+
+    return (
+      <div className="space-y-3">
+        <div className={`rounded-lg p-4 border ${style.panel}`}>
+          <div className={`flex items-center text-sm font-medium ${style.text}`}>
+            <RiskIcon strokeWidth={1.25} className="h-5 w-5 mr-2" />
+            {style.label}
+          </div>
+          {safety.reasons.length > 0 && (
+            <ul className={`mt-2 ml-7 list-disc space-y-1 text-sm ${style.text}`}>
+              {safety.reasons.map(reason => (
+                <li key={reason.code + reason.message}>{reason.message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {renderFieldCard(
+          <Globe strokeWidth={1.25} className="h-4 w-4 text-gray-500" />,
+          'Website',
+          original,
+          'url',
+          safety.displayHost && safety.displayHost !== original ? `Opens ${safety.displayHost}` : undefined
+        )}
+
+        {openAction && (
+          confirmingOpen ? (
+            <div className="flex flex-wrap items-center gap-3 rounded-lg border border-gray-200 p-4">
+              <span className="text-sm text-gray-700">
+                Open {safety.displayHost ?? url} despite the warnings above?
+              </span>
+              <button
+                onClick={openUrl}
+                className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-2 focus:outline-offset-2 focus:outline-red-600 transition-colors cursor-pointer"
+              >
+                Open anyway
+              </button>
+              <button
+                onClick={() => setConfirmingOpen(false)}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600 transition-colors cursor-pointer"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => (safety.riskLevel === 'low' ? openUrl() : setConfirmingOpen(true))}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600 transition-colors cursor-pointer"
+            >
+              <ExternalLink strokeWidth={1.25} className="h-4 w-4 mr-1" />
+              {openAction.label}
+            </button>
+          )
+        )}
+      </div>
+    );
+  };
+
+  const runAction = async (action: ContentAction, fieldId: string) => {
+    const outcome = await executeAction(action, { platform, mapProvider });
+    if (!outcome.ok) {
+      setActionError(outcome.reason);
+    } else if (action.type === 'copy') {
+      setCopiedField(fieldId);
+      setTimeout(() => setCopiedField(null), 2000);
+    }
+  };
+
+  const renderActions = () => {
+    // Websites have their own open button behind the safety check
+    const actions = result.actions.filter(action => !(result.type === 'url' && action.type === 'open'));
+    if (actions.length === 0) return null;
+
+    const hasNavigate = actions.some(action => action.type === 'navigate');
+
+    return (
+      <div className="mt-6 pt-4 border-t border-gray-200 space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {actions.map((action, index) => {
+            const fieldId = `action-${index}`;
+            const support = getActionSupport(action, { platform, mapProvider });
+            const Icon = copiedField === fieldId ? Check : actionIcons[action.icon ?? ''] ?? Clipboard;
+
+            return (
+              <button
+                key={fieldId}
+                onClick={() => runAction(action, fieldId)}
+                disabled={!support.supported}
+                title={support.reason ?? support.hint}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Icon strokeWidth={1.25} className={`h-4 w-4 mr-1 ${copiedField === fieldId ? 'text-green-600' : ''}`} />
+                {action.label}
+              </button>
+            );
+          })}
+        </div>
+
+        {hasNavigate && (
+          <div className="flex items-center space-x-3">
+            <label htmlFor="map-provider" className="text-sm text-gray-700">
+              Open maps with
+            </label>
+            <select
+              id="map-provider"
+              value={mapProvider}
+              onChange={e => {
+                const provider = e.target.value as MapProvider;
+                setMapProviderChoice(provider);
+                setMapProvider(provider);
+                setActionError(null);
+              }}
+              className="rounded-md border border-gray-300 py-1.5 px-3 text-sm text-gray-900 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600"
+            >
+              {(Object.keys(MAP_PROVIDERS) as MapProvider[]).map(provider => (
+                <option key={provider} value={provider}>{MAP_PROVIDERS[provider]}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {actions.some(action => !getActionSupport(action, { platform, mapProvider }).supported) && (
+          <p className="text-xs text-gray-500">
+            Greyed-out actions are not available on this device.
+          </p>
+        )}
+
+        {[...new Set(actions.map(action => getActionSupport(action, { platform, mapProvider }).hint).filter(Boolean))].map(hint => (
+          <p key={hint} className="text-xs text-gray-500">
+            {hint}
+          </p>
+        ))}
+
+        {actionError && (
+          <div className="flex items-center text-sm text-red-700">
+            <CircleAlert strokeWidth={1.25} className="h-4 w-4 mr-1.5 flex-shrink-0" />
+            {actionError}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderContent = () => {
+    // A registered handler with its own view takes over from the built-in one
+    const match = getContentHandlerFor(result);
+    if (match?.handler.render) {
+      return match.handler.render(match.data);
+    }
+
+    switch (result.type) {
+      case 'vcard':
+        return renderVCardContent();
+      case 'wifi':
+        return renderWifiContent();
+      case 'event':
+        return renderEventContent();
+      case 'epc':
+      case 'swiss-qr':
+        return renderPaymentContent();
+      case 'crypto':
+        return renderCryptoContent();
+      case 'url':
+        return renderUrlContent();
+      case 'phone':
+        return renderPhoneContent();
+      case 'otp':
+        return renderOtpContent();
+      case 'location':
+        return renderLocationContent();
+      case 'email':
+        return renderEmailContent();
+      case 'sms':
+      case 'custom':
+      case 'text':
+      case 'empty':
+        return (
+          <div className="bg-gray-50 rounded-lg p-4">
+            <pre className="text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">
+              {result.displayText}
+            </pre>
+          </div>
+        );
+      default:
+        return assertNever(result);
+    }
+  };
+
+  const renderCodeList = () => {
+    if (codes.length <= 1) return null;
+
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 shadow-sm mb-4">
+        <div className="px-6 py-3 border-b border-gray-200">
+          <h3 className="text-sm font-semibold text-gray-900">
+            {codes.length} QR codes found
+          </h3>
+        </div>
+        <ul className="divide-y divide-gray-200" role="listbox" aria-label="Detected QR codes">
+          {codes.map((code, index) => {
+            const bounds = getLocationBounds(code.qr.location);
+            const isSelected = index === selectedCode;
+
+            return (
+              <li key={`code-${index}`} role="option" aria-selected={isSelected}>
+                <button
+                  onClick={() => {
+                    setSelectedCode(index);
+                    setConfirmingOpen(false);
+                    setPhoneRegion(null);
+                    setActionError(null);
+                  }}
+                  className={`w-full flex items-center space-x-3 px-6 py-3 text-left transition-colors cursor-pointer ${
+                    isSelected ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <QrCode strokeWidth={1.25} className={`h-5 w-5 flex-shrink-0 ${isSelected ? 'text-blue-600' : 'text-gray-400'}`} />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-gray-900 truncate">
+                      {code.content.displayText}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {getContentLabel(code.content)} • {code.region} ({bounds.x}, {bounds.y}, {bounds.width}×{bounds.height} px)
+                    </div>
+                  </div>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    );
+  };
+
   return (
     <div className="w-full max-w-4xl mx-auto" role="region" aria-label="QR Code scan results">
+      {renderCodeList()}
+
       {/* Main Content Card */}
       <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
         {/* Header */}
@@ -348,19 +1409,41 @@ export default function ScanResultDisplay({ result, onReset, hideResetButton = f
                   QR Code Content
                 </h3>
                 <p className="text-sm text-gray-600">
-                  {getTypeLabel(result.type)}
+                  {getContentLabel(result)}
                   {result.type === 'vcard' && (
                     <span className="ml-2 text-blue-600 font-medium">
-                      {getFieldCount(result.data as VCardContact)} fields
+                      {getFieldCount(result.data)} fields
+                    </span>
+                  )}
+                  {contactFormat && contactFormat !== 'vcard' && (
+                    <span className="ml-2 text-gray-500">
+                      ({formatLabels[contactFormat]})
                     </span>
                   )}
                 </p>
               </div>
             </div>
             
+            {result.type === 'event' && (
+              <button
+                onClick={() => downloadEvent(result.data)}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600 transition-colors cursor-pointer"
+              >
+                <CalendarPlus strokeWidth={1.25} className="h-4 w-4 mr-1" />
+                Add to calendar
+              </button>
+            )}
+
             {/* View Mode Toggle for vCard */}
             {result.type === 'vcard' && (
               <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => downloadVCard(result.data)}
+                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600 transition-colors cursor-pointer"
+                >
+                  <Download strokeWidth={1.25} className="h-4 w-4 mr-1" />
+                  .vcf
+                </button>
                 <span className="text-sm font-medium text-gray-700">
                   Single
                 </span>
@@ -380,15 +1463,8 @@ export default function ScanResultDisplay({ result, onReset, hideResetButton = f
 
         {/* Content */}
         <div className="p-6">
-          {result.type === 'vcard' ? (
-            renderVCardContent()
-          ) : (
-            <div className="bg-gray-50 rounded-lg p-4">
-              <pre className="text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">
-                {result.displayText}
-              </pre>
-            </div>
-          )}
+          {renderContent()}
+          {renderActions()}
         </div>
       </div>
     </div>
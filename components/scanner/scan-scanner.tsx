@@ -1,48 +1,99 @@
 'use client';
 
-import { useState, useRef, useCallback } from 'react';
-import { Upload, CircleCheck, Trash2 } from 'lucide-react';
-import { validateFile, createCanvasFromFile, processImage, QRResult } from '@/lib/scan-preprocessing';
+import { useState, useRef, useCallback, useEffect, useSyncExternalStore } from 'react';
+import { Upload, CircleCheck, Trash2, Camera, History } from 'lucide-react';
+import {
+  validateFile,
+  createCanvasFromFile,
+  processImage,
+  processImageMulti,
+  isAbortError,
+  describeRegion,
+  getLocationBounds,
+  QRResult
+} from '@/lib/scan-preprocessing';
 import { parseContent, ParsedContent } from '@/lib/scan-content-utils';
-import ScanProgress from './scan-progress';
-import ScanResultDisplay from './scan-result-display';
+import { isCameraSupported } from '@/lib/scan-camera';
+import { getStrategyPlan } from '@/lib/scan-strategy-registry';
+import { createThumbnail, saveScanToHistory } from '@/lib/scan-history';
+import ScanCamera from './scan-camera';
+import ScanBatch from './scan-batch';
+import ScanHistory from './scan-history';
+import ScanProgress, { ScanStage } from './scan-progress';
+import ScanResultDisplay, { DetectedCode } from './scan-result-display';
+import { Switch } from '@/components/catalyst/switch';
 
 interface ScannerState {
-  stage: 'upload' | 'loaded' | 'scanning' | 'result' | 'error';
+  stage: 'upload' | 'camera' | 'batch' | 'history' | 'loaded' | 'scanning' | 'result' | 'error';
   progress: number;
   currentStrategy: string;
+  stages: ScanStage[];
   result: ParsedContent | null;
+  codes: DetectedCode[];
+  detectMultiple: boolean;
   error: string | null;
   loadedFile: File | null;
+  batchFiles: File[];
   imagePreview: string | null;
 }
 
+const subscribeNoop = () => () => {};
+
 export default function ScanScanner() {
   const [state, setState] = useState<ScannerState>({
     stage: 'upload',
     progress: 0,
     currentStrategy: '',
+    stages: [],
     result: null,
+    codes: [],
+    detectMultiple: false,
     error: null,
     loadedFile: null,
+    batchFiles: [],
     imagePreview: null
   });
   
   const [isDragOver, setIsDragOver] = useState(false);
+  const cameraAvailable = useSyncExternalStore(subscribeNoop, isCameraSupported, () => false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const previewUrlRef = useRef<string | null>(null);
+
+  const releasePreview = useCallback(() => {
+    if (previewUrlRef.current) {
+      URL.revokeObjectURL(previewUrlRef.current);
+      previewUrlRef.current = null;
+    }
+  }, []);
+
+  // Stop any running scan and free the preview when the scanner unmounts
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      releasePreview();
+    };
+  }, [releasePreview]);
 
   const resetState = useCallback(() => {
-    setState({
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    releasePreview();
+    setState(prev => ({
       stage: 'upload',
       progress: 0,
       currentStrategy: '',
+      stages: [],
       result: null,
+      codes: [],
+      detectMultiple: prev.detectMultiple,
       error: null,
       loadedFile: null,
+      batchFiles: [],
       imagePreview: null
-    });
+    }));
     setIsDragOver(false);
-  }, []);
+  }, [releasePreview]);
 
   const loadFile = useCallback(async (file: File) => {
     setState(prev => ({ ...prev, error: null }));
@@ -54,7 +105,9 @@ export default function ScanScanner() {
     }
 
     // Create image preview
+    releasePreview();
     const imageUrl = URL.createObjectURL(file);
+    previewUrlRef.current = imageUrl;
     
     setState(prev => ({ 
       ...prev, 
@@ -62,20 +115,30 @@ export default function ScanScanner() {
       loadedFile: file,
       imagePreview: imageUrl
     }));
-  }, []);
+  }, [releasePreview]);
 
   const startScanning = useCallback(async () => {
     if (!state.loadedFile) return;
 
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
+    let canvas: HTMLCanvasElement | null = null;
+    const strategies = getStrategyPlan({ includeSearch: true });
+
     setState(prev => ({ 
       ...prev, 
       stage: 'scanning',
       progress: 10, 
-      currentStrategy: 'Loading image...' 
+      currentStrategy: 'Loading image...',
+      stages: strategies.map(strategy => ({ name: strategy.label ?? strategy.name, threshold: strategy.progress }))
     }));
 
     try {
-      const { canvas, imageData } = await createCanvasFromFile(state.loadedFile);
+      const loaded = await createCanvasFromFile(state.loadedFile, signal);
+      canvas = loaded.canvas;
+      const { imageData } = loaded;
       
       setState(prev => ({ 
         ...prev, 
@@ -84,6 +147,7 @@ export default function ScanScanner() {
       }));
 
       const onProgress = (progress: number, strategy: string) => {
+        if (signal.aborted) return;
         setState(prev => ({ 
           ...prev, 
           progress: Math.min(progress, 95), 
@@ -91,21 +155,40 @@ export default function ScanScanner() {
         }));
       };
 
-      const qrResult: QRResult | null = await processImage(canvas, imageData, onProgress);
+      let qrResults: QRResult[];
+      if (state.detectMultiple) {
+        qrResults = await processImageMulti(canvas, imageData, onProgress, { signal, strategies });
+      } else {
+        const qrResult: QRResult | null = await processImage(canvas, imageData, onProgress, { signal, strategies });
+        qrResults = qrResult ? [qrResult] : [];
+      }
 
-      if (qrResult) {
+      if (qrResults.length > 0) {
         setState(prev => ({ 
           ...prev, 
           progress: 100, 
           currentStrategy: 'Processing content...' 
         }));
 
-        const parsedContent = parseContent(qrResult.data);
+        const codes: DetectedCode[] = qrResults.map(qrResult => ({
+          content: parseContent(qrResult.data),
+          qr: qrResult,
+          region: describeRegion(getLocationBounds(qrResult.location), imageData.width, imageData.height)
+        }));
+        
+        const thumbnail = createThumbnail(canvas);
+        codes.forEach(code => saveScanToHistory({
+          content: code.content,
+          rawData: code.qr.data,
+          strategy: code.qr.strategy,
+          thumbnail
+        }));
         
         setState(prev => ({ 
           ...prev, 
           stage: 'result',
-          result: parsedContent,
+          result: codes[0].content,
+          codes,
           progress: 100,
           currentStrategy: 'Complete'
         }));
@@ -117,17 +200,69 @@ export default function ScanScanner() {
         }));
       }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error processing image:', error);
       setState(prev => ({ 
         ...prev, 
         stage: 'error',
         error: 'Failed to process the image. Please try again with a different file.'
       }));
+    } finally {
+      if (canvas) {
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
-  }, [state.loadedFile]);
+  }, [state.loadedFile, state.detectMultiple]);
+
+  const cancelScanning = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setState(prev => ({ 
+      ...prev, 
+      stage: 'loaded',
+      progress: 0,
+      currentStrategy: ''
+    }));
+  }, []);
+
+  const startCamera = useCallback(() => {
+    setState(prev => ({ ...prev, stage: 'camera', error: null }));
+  }, []);
+
+  const showHistory = useCallback(() => {
+    setState(prev => ({ ...prev, stage: 'history', error: null }));
+  }, []);
+
+  const handleCameraResult = useCallback((qrResult: QRResult) => {
+    const content = parseContent(qrResult.data);
+    saveScanToHistory({ content, rawData: qrResult.data, strategy: qrResult.strategy });
+
+    setState(prev => ({ 
+      ...prev, 
+      stage: 'result',
+      result: content,
+      codes: [],
+      progress: 100,
+      currentStrategy: 'Complete'
+    }));
+  }, []);
+
+  const handleCameraError = useCallback((error: string) => {
+    setState(prev => ({ ...prev, stage: 'error', error }));
+  }, []);
 
   const handleFileSelect = useCallback((files: FileList | null) => {
     if (!files || files.length === 0) return;
+
+    if (files.length > 1) {
+      setState(prev => ({ ...prev, stage: 'batch', error: null, batchFiles: Array.from(files) }));
+      return;
+    }
+
     const file = files[0];
     loadFile(file);
   }, [loadFile]);
@@ -176,7 +311,28 @@ export default function ScanScanner() {
 
   // Show result if we have one
   if (state.stage === 'result' && state.result) {
-    return <ScanResultDisplay result={state.result} onReset={resetState} />;
+    return <ScanResultDisplay result={state.result} codes={state.codes} onReset={resetState} />;
+  }
+
+  // Show saved scans
+  if (state.stage === 'history') {
+    return <ScanHistory onClose={resetState} />;
+  }
+
+  // Show batch scan of several files
+  if (state.stage === 'batch') {
+    return <ScanBatch files={state.batchFiles} onReset={resetState} />;
+  }
+
+  // Show live camera
+  if (state.stage === 'camera') {
+    return (
+      <ScanCamera
+        onResult={handleCameraResult}
+        onCancel={resetState}
+        onError={handleCameraError}
+      />
+    );
   }
 
   // Show scanning progress
@@ -188,6 +344,8 @@ export default function ScanScanner() {
           currentStrategy={state.currentStrategy}
           isComplete={false}
           error={undefined}
+          stages={state.stages}
+          onCancel={cancelScanning}
         />
       </div>
     );
@@ -220,6 +378,19 @@ export default function ScanScanner() {
               <p className="text-sm text-gray-600 mb-4">
                 {state.loadedFile.name} • {formatFileSize(state.loadedFile.size)}
               </p>
+
+              {/* Multi-code Toggle */}
+              <div className="flex items-center space-x-3 mb-4">
+                <Switch
+                  checked={state.detectMultiple}
+                  onChange={(checked) => setState(prev => ({ ...prev, detectMultiple: checked }))}
+                  color="blue"
+                  aria-label="Detect multiple QR codes"
+                />
+                <span className="text-sm text-gray-700">
+                  Detect multiple QR codes
+                </span>
+              </div>
               
               {/* Action Buttons */}
               <div className="flex space-x-3">
@@ -298,6 +469,7 @@ export default function ScanScanner() {
           type="file"
           className="sr-only"
           accept="image/png,image/jpeg,image/jpg,image/gif"
+          multiple
           onChange={handleFileInputChange}
           aria-describedby="file-upload-description"
         />
@@ -307,7 +479,7 @@ export default function ScanScanner() {
         </span>
         
         <span className="mt-2 block text-sm text-gray-500" id="file-upload-description">
-          Click to browse or drag and drop your image here
+          Click to browse or drag and drop your image here - select several to scan them as a batch
         </span>
 
         <Upload
@@ -337,6 +509,26 @@ export default function ScanScanner() {
           </div>
         </div>
       </div>
+
+      {/* Camera Mode and History */}
+      <div className="mt-4 flex justify-center space-x-3">
+        {cameraAvailable && (
+          <button
+            onClick={startCamera}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600 transition-colors cursor-pointer"
+          >
+            <Camera strokeWidth={1.25} className="h-4 w-4 mr-2" />
+            Scan with Camera
+          </button>
+        )}
+        <button
+          onClick={showHistory}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-2 focus:outline-offset-2 focus:outline-blue-600 transition-colors cursor-pointer"
+        >
+          <History strokeWidth={1.25} className="h-4 w-4 mr-2" />
+          History
+        </button>
+      </div>
     </div>
   );
 }
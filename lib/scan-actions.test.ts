@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { buildActionUri, getActionSupport } from './scan-actions';
+
+describe('getActionSupport', () => {
+  it.each(['call', 'sms'] as const)('keeps %s enabled on desktops with a hint', type => {
+    const support = getActionSupport({ type, label: '', value: '+15551234567' }, { platform: 'desktop' });
+    expect(support.supported).toBe(true);
+    expect(support.hint).toContain(`${type}:`);
+  });
+
+  it('gives no hint on phones', () => {
+    expect(getActionSupport({ type: 'call', label: '', value: '+15551234567' }, { platform: 'android' })).toEqual({ supported: true });
+  });
+
+  it('disables geo: links outside Android', () => {
+    const support = getActionSupport({ type: 'navigate', label: '', value: 'geo:52.5,13.4' }, { platform: 'ios', mapProvider: 'geo' });
+    expect(support.supported).toBe(false);
+  });
+});
+
+describe('buildActionUri', () => {
+  it('uses the body separator the platform expects', () => {
+    const action = { type: 'sms' as const, label: '', value: '+15551234567', body: 'Hi there' };
+    expect(buildActionUri(action, { platform: 'ios' })).toBe('sms:+15551234567&body=Hi%20there');
+    expect(buildActionUri(action, { platform: 'android' })).toBe('sms:+15551234567?body=Hi%20there');
+  });
+
+  it('opens geo: locations with the chosen map provider', () => {
+    const action = { type: 'navigate' as const, label: '', value: 'geo:52.52,13.405' };
+    expect(buildActionUri(action, { platform: 'android', mapProvider: 'geo' })).toMatch(/^geo:52.52,13.405/);
+    expect(buildActionUri(action, { platform: 'ios', mapProvider: 'openstreetmap' })).toContain('openstreetmap.org');
+  });
+
+  it('drops visual separators from phone numbers', () => {
+    expect(buildActionUri({ type: 'call', label: '', value: '+1 (555) 123-4567' })).toBe('tel:+15551234567');
+  });
+});
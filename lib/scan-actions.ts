@@ -0,0 +1,162 @@
+import type { ContentAction } from './scan-content-utils';
+import { MAP_PROVIDERS, MapProvider, buildMapUri, parseGeoUri } from './scan-geo';
+
+export type DevicePlatform = 'ios' | 'android' | 'desktop';
+
+export interface ActionOptions {
+  platform?: DevicePlatform;
+  mapProvider?: MapProvider;
+}
+
+export interface ActionSupport {
+  supported: boolean;
+  // Why the action cannot run here, for display
+  reason?: string;
+  // Caveat for an action that may still work, e.g. calls from a desktop
+  hint?: string;
+}
+
+export type ActionOutcome = { ok: true } | { ok: false; reason: string };
+
+const MAP_PROVIDER_STORAGE_KEY = 'prismio-map-provider';
+
+export function detectPlatform(): DevicePlatform {
+  if (typeof navigator === 'undefined') return 'desktop';
+
+  const userAgent = navigator.userAgent;
+  if (/Android/i.test(userAgent)) return 'android';
+  // iPadOS reports itself as a Mac but has a touch screen
+  if (/iPhone|iPad|iPod/i.test(userAgent) || (/Macintosh/.test(userAgent) && navigator.maxTouchPoints > 1)) return 'ios';
+  return 'desktop';
+}
+
+/** Returns the stored map provider, or the platform's own maps when none was picked. */
+export function getMapProvider(platform = detectPlatform()): MapProvider {
+  if (typeof localStorage !== 'undefined') {
+    const stored = localStorage.getItem(MAP_PROVIDER_STORAGE_KEY);
+    if (stored && stored in MAP_PROVIDERS) return stored as MapProvider;
+  }
+
+  return platform === 'android' ? 'geo' : platform === 'ios' ? 'apple' : 'openstreetmap';
+}
+
+export function setMapProvider(provider: MapProvider | null) {
+  if (typeof localStorage === 'undefined') return;
+  if (provider) {
+    localStorage.setItem(MAP_PROVIDER_STORAGE_KEY, provider);
+  } else {
+    localStorage.removeItem(MAP_PROVIDER_STORAGE_KEY);
+  }
+}
+
+function buildQuery(params: Record<string, string | undefined>): string {
+  // mailto: and sms: expect %20 for spaces, so URLSearchParams' "+" is not used
+  return Object.entries(params)
+    .filter((entry): entry is [string, string] => Boolean(entry[1]))
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&');
+}
+
+// Addresses stay readable: "@" and the "," between recipients need no escaping in mailto:
+function encodeAddresses(addresses: string): string {
+  return encodeURIComponent(addresses).replace(/%40/g, '@').replace(/%2C/g, ',');
+}
+
+/**
+ * Builds the URI an action opens, or null for copy actions. Action values are
+ * bare: a phone number, an email address, a URL or a geo: URI.
+ */
+export function buildActionUri(action: ContentAction, options: ActionOptions = {}): string | null {
+  const platform = options.platform ?? detectPlatform();
+
+  switch (action.type) {
+    case 'copy':
+      return null;
+
+    case 'open':
+      return action.value;
+
+    case 'call':
+      // Keep digits, "+" and the ";ext=" parameter; drop visual separators
+      return `tel:${action.value.replace(/^tel:/i, '').replace(/[\s().-]/g, '')}`;
+
+    case 'email': {
+      const query = [
+        action.cc && `cc=${encodeAddresses(action.cc)}`,
+        action.bcc && `bcc=${encodeAddresses(action.bcc)}`,
+        // RFC 6068 asks for CRLF line breaks in the body
+        buildQuery({ subject: action.subject, body: action.body?.replace(/\r?\n/g, '\r\n') })
+      ].filter(Boolean).join('&');
+      return `mailto:${encodeAddresses(action.value.replace(/^mailto:/i, ''))}${query ? `?${query}` : ''}`;
+    }
+
+    case 'sms': {
+      const number = action.value.replace(/[\s().-]/g, '');
+      const query = buildQuery({ body: action.body });
+      // iOS Messages only reads the body after "&"; everything else follows RFC 5724
+      return `sms:${number}${query ? `${platform === 'ios' ? '&' : '?'}${query}` : ''}`;
+    }
+
+    case 'navigate': {
+      const location = parseGeoUri(action.value);
+      return location ? buildMapUri(location, options.mapProvider ?? getMapProvider(platform)) : action.value;
+    }
+  }
+}
+
+/** Checks whether an action can run on this device. */
+export function getActionSupport(action: ContentAction, options: ActionOptions = {}): ActionSupport {
+  const platform = options.platform ?? detectPlatform();
+
+  switch (action.type) {
+    case 'copy':
+      return typeof navigator !== 'undefined' && navigator.clipboard
+        ? { supported: true }
+        : { supported: false, reason: 'Copying needs a secure (https) connection.' };
+
+    case 'call':
+    case 'sms':
+      // Desktops can hand tel: and sms: links to apps such as FaceTime, Skype or Teams
+      return platform === 'desktop'
+        ? { supported: true, hint: `${action.type === 'call' ? 'Calling' : 'Texting'} from a computer needs an app that handles ${action.type}: links.` }
+        : { supported: true };
+
+    case 'navigate':
+      return (options.mapProvider ?? getMapProvider(platform)) === 'geo' && platform !== 'android'
+        ? { supported: false, reason: 'geo: links only open a map app on Android.' }
+        : { supported: true };
+
+    case 'open':
+      return /^https?:\/\//i.test(action.value)
+        ? { supported: true }
+        : { supported: false, reason: 'Only web links can be opened.' };
+
+    case 'email':
+      return { supported: true };
+  }
+}
+
+/** Runs an action: copies its value, or opens its URI in a new tab or the app that handles it. */
+export async function executeAction(action: ContentAction, options: ActionOptions = {}): Promise<ActionOutcome> {
+  const support = getActionSupport(action, options);
+  if (!support.supported) {
+    return { ok: false, reason: support.reason ?? 'This action is not supported on this device.' };
+  }
+
+  const uri = buildActionUri(action, options);
+
+  try {
+    if (uri === null) {
+      await navigator.clipboard.writeText(action.value);
+    } else if (/^https?:/i.test(uri)) {
+      window.open(uri, '_blank', 'noopener,noreferrer');
+    } else {
+      // tel:, mailto:, sms: and geo: hand over to the system without leaving a blank tab
+      window.location.href = uri;
+    }
+    return { ok: true };
+  } catch (error) {
+    console.error('Failed to run action:', error);
+    return { ok: false, reason: error instanceof Error ? error.message : 'The action failed.' };
+  }
+}
@@ -0,0 +1,152 @@
+import { ContentType, parseContent, ParsedContent } from './scan-content-utils';
+import { createCanvasFromFile, isAbortError, processImage, validateFile } from './scan-preprocessing';
+import { ProcessingStrategy } from './scan-strategies';
+
+export type BatchItemStatus = 'queued' | 'scanning' | 'done' | 'not-found' | 'error' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  content?: ParsedContent;
+  rawData?: string;
+  strategy?: string;
+  error?: string;
+}
+
+export interface BatchOptions {
+  concurrency?: number;
+  strategies?: ProcessingStrategy[];
+  signal?: AbortSignal;
+  onUpdate: (item: BatchItem) => void;
+}
+
+export interface BatchRow {
+  fileName: string;
+  status: BatchItemStatus;
+  contentType: ContentType | '';
+  text: string;
+  strategy: string;
+}
+
+export function createBatchItems(files: File[]): BatchItem[] {
+  return files.map((file, index) => ({
+    id: `${index}-${file.name}-${file.lastModified}`,
+    file,
+    status: 'queued'
+  }));
+}
+
+async function scanBatchItem(item: BatchItem, options: BatchOptions): Promise<BatchItem> {
+  const validation = validateFile(item.file);
+  if (!validation.isValid) {
+    return { ...item, status: 'error', error: validation.error };
+  }
+
+  let canvas: HTMLCanvasElement | null = null;
+
+  try {
+    const loaded = await createCanvasFromFile(item.file, options.signal);
+    canvas = loaded.canvas;
+
+    const result = await processImage(canvas, loaded.imageData, () => {}, {
+      strategies: options.strategies,
+      signal: options.signal
+    });
+
+    if (!result) {
+      return { ...item, status: 'not-found' };
+    }
+
+    return {
+      ...item,
+      status: 'done',
+      content: parseContent(result.data),
+      rawData: result.data,
+      strategy: result.strategy
+    };
+  } catch (error) {
+    if (isAbortError(error)) {
+      return { ...item, status: 'cancelled' };
+    }
+    console.error(`Error processing ${item.file.name}:`, error);
+    return { ...item, status: 'error', error: 'Failed to process the image.' };
+  } finally {
+    if (canvas) {
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+  }
+}
+
+/**
+ * Scans the items with at most `concurrency` images decoded at once,
+ * reporting every status change through onUpdate.
+ */
+export async function runBatch(items: BatchItem[], options: BatchOptions): Promise<BatchItem[]> {
+  const concurrency = Math.max(1, options.concurrency ?? 2);
+  const results = [...items];
+  let next = 0;
+
+  const workerLoop = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const item = items[index];
+
+      if (options.signal?.aborted) {
+        results[index] = { ...item, status: 'cancelled' };
+        options.onUpdate(results[index]);
+        continue;
+      }
+
+      options.onUpdate({ ...item, status: 'scanning' });
+      results[index] = await scanBatchItem(item, options);
+      options.onUpdate(results[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, workerLoop));
+  return results;
+}
+
+export function toBatchRows(items: BatchItem[]): BatchRow[] {
+  return items.map(item => ({
+    fileName: item.file.name,
+    status: item.status,
+    contentType: item.content?.type ?? '',
+    text: item.rawData ?? item.error ?? '',
+    strategy: item.strategy ?? ''
+  }));
+}
+
+function escapeCsvField(value: string): string {
+  // Neutralise spreadsheet formulas, since decoded text is untrusted
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function batchToCsv(items: BatchItem[]): string {
+  const header = ['File Name', 'Status', 'Content Type', 'Decoded Text', 'Strategy'];
+  const rows = toBatchRows(items).map(row => [row.fileName, row.status, row.contentType, row.text, row.strategy]);
+
+  return [header, ...rows]
+    .map(row => row.map(escapeCsvField).join(','))
+    .join('\r\n');
+}
+
+export function batchToJson(items: BatchItem[]): string {
+  return JSON.stringify(toBatchRows(items), null, 2);
+}
+
+export function downloadTextFile(content: string, fileName: string, mimeType: string) {
+  downloadBlob(new Blob([content], { type: mimeType }), fileName);
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { buildIcsFile, getEventEnd, parseCalendarEvent, toDate } from './scan-calendar';
+
+const event = (...lines: string[]) => ['BEGIN:VCALENDAR', 'BEGIN:VEVENT', ...lines, 'END:VEVENT', 'END:VCALENDAR'].join('\r\n');
+
+function octets(line: string): number {
+  return new TextEncoder().encode(line).length;
+}
+
+describe('parseCalendarEvent', () => {
+  it('reads zoned, UTC and all-day times', () => {
+    expect(parseCalendarEvent(event('DTSTART;TZID=Europe/Zurich:20240612T090000', 'DTEND:20240612T100000Z'))).toMatchObject({
+      start: { value: '20240612T090000', timezone: 'Europe/Zurich', utc: false, allDay: false },
+      end: { value: '20240612T100000Z', utc: true, allDay: false }
+    });
+    expect(parseCalendarEvent(event('DTSTART;VALUE=DATE:20241224')).start).toMatchObject({ allDay: true });
+  });
+
+  it('unfolds and unescapes text and skips nested components', () => {
+    const parsed = parseCalendarEvent(event(
+      'SUMMARY:Team\\, lunch',
+      'DESCRIPTION:First line\\nsecond',
+      '  line',
+      'BEGIN:VALARM',
+      'DESCRIPTION:Reminder',
+      'END:VALARM',
+      'LOCATION:Café Zürich'
+    ));
+    expect(parsed).toMatchObject({ summary: 'Team, lunch', description: 'First line\nsecond line', location: 'Café Zürich' });
+  });
+
+  it('ignores malformed date-times', () => {
+    expect(parseCalendarEvent(event('DTSTART:tomorrow')).start).toBeUndefined();
+  });
+});
+
+describe('toDate', () => {
+  it('resolves TZID times through daylight saving time', () => {
+    expect(toDate({ value: '20240115T090000', timezone: 'Europe/Zurich', utc: false, allDay: false })?.toISOString()).toBe('2024-01-15T08:00:00.000Z');
+    expect(toDate({ value: '20240612T090000', timezone: 'Europe/Zurich', utc: false, allDay: false })?.toISOString()).toBe('2024-06-12T07:00:00.000Z');
+    expect(toDate({ value: '20240612T090000', timezone: 'America/New_York', utc: false, allDay: false })?.toISOString()).toBe('2024-06-12T13:00:00.000Z');
+  });
+
+  it('adds a duration when there is no end', () => {
+    const parsed = parseCalendarEvent(event('DTSTART:20240612T090000Z', 'DURATION:PT1H30M'));
+    expect(getEventEnd(parsed)?.toISOString()).toBe('2024-06-12T10:30:00.000Z');
+  });
+});
+
+describe('buildIcsFile', () => {
+  it('exports TZID times in UTC instead of referencing a missing VTIMEZONE', () => {
+    const ics = buildIcsFile(parseCalendarEvent(event(
+      'DTSTART;TZID=Europe/Zurich:20240612T090000',
+      'DTEND;TZID=Europe/Zurich:20240612T100000'
+    )));
+    expect(ics).toContain('\r\nDTSTART:20240612T070000Z\r\n');
+    expect(ics).toContain('\r\nDTEND:20240612T080000Z\r\n');
+    expect(ics).not.toContain('TZID');
+  });
+
+  it('keeps UTC, floating and all-day times as written', () => {
+    expect(buildIcsFile(parseCalendarEvent(event('DTSTART:20240612T090000Z')))).toContain('\r\nDTSTART:20240612T090000Z\r\n');
+    expect(buildIcsFile(parseCalendarEvent(event('DTSTART:20240612T090000')))).toContain('\r\nDTSTART:20240612T090000\r\n');
+    expect(buildIcsFile(parseCalendarEvent(event('DTSTART;VALUE=DATE:20241224')))).toContain('\r\nDTSTART;VALUE=DATE:20241224\r\n');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const summary = 'Grüße aus Zürich 🎉 '.repeat(12).trim();
+    const ics = buildIcsFile({ summary, description: 'x'.repeat(300) });
+
+    for (const line of ics.split('\r\n')) {
+      expect(octets(line)).toBeLessThanOrEqual(75);
+      expect(line).not.toMatch(/[\uD800-\uDBFF]$|^ ?[\uDC00-\uDFFF]/);
+    }
+    expect(parseCalendarEvent(ics)).toMatchObject({ summary, description: 'x'.repeat(300) });
+  });
+
+  it('round-trips escaped text', () => {
+    const original = { summary: 'Lunch; then, coffee', location: 'Room 1\\2', description: 'Line one\nLine two' };
+    expect(parseCalendarEvent(buildIcsFile(original))).toMatchObject(original);
+  });
+});
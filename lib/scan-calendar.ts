@@ -0,0 +1,334 @@
+import { ContentLine, parseContentLines, unescapeValue } from './scan-vcard';
+
+export interface CalendarDateTime {
+  // Value as written, e.g. "20240612T090000" or "20240612"
+  value: string;
+  // TZID parameter; absent for UTC and floating times
+  timezone?: string;
+  utc: boolean;
+  allDay: boolean;
+}
+
+export interface CalendarEvent {
+  summary?: string;
+  start?: CalendarDateTime;
+  end?: CalendarDateTime;
+  // DURATION from the event when it has no DTEND, e.g. "PT1H30M"
+  duration?: string;
+  location?: string;
+  description?: string;
+  rrule?: string;
+  organizer?: string;
+  url?: string;
+  uid?: string;
+}
+
+const WEEKDAYS: Record<string, string> = {
+  MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun'
+};
+
+const FREQUENCIES: Record<string, [string, string]> = {
+  SECONDLY: ['second', 'seconds'],
+  MINUTELY: ['minute', 'minutes'],
+  HOURLY: ['hour', 'hours'],
+  DAILY: ['day', 'days'],
+  WEEKLY: ['week', 'weeks'],
+  MONTHLY: ['month', 'months'],
+  YEARLY: ['year', 'years']
+};
+
+export function isCalendarEvent(content: string): boolean {
+  return /^BEGIN:(VCALENDAR|VEVENT)/i.test(content) && /BEGIN:VEVENT/i.test(content) && /END:VEVENT/i.test(content);
+}
+
+function parseDateTime(line: ContentLine): CalendarDateTime | undefined {
+  const value = line.value.trim();
+  if (!/^\d{8}(T\d{6}Z?)?$/.test(value)) return undefined;
+
+  return {
+    value,
+    timezone: line.params.TZID?.[0],
+    utc: value.endsWith('Z'),
+    allDay: line.params.VALUE?.[0]?.toUpperCase() === 'DATE' || value.length === 8
+  };
+}
+
+/** Parses the first VEVENT of an iCalendar payload. */
+export function parseCalendarEvent(content: string): CalendarEvent {
+  const event: CalendarEvent = {};
+  let inEvent = false;
+  // Skip the properties of nested components such as VALARM
+  let nestedDepth = 0;
+
+  for (const line of parseContentLines(content)) {
+    const value = line.value.trim().toUpperCase();
+
+    if (line.name === 'BEGIN') {
+      if (value === 'VEVENT' && !inEvent) inEvent = true;
+      else if (inEvent) nestedDepth++;
+      continue;
+    }
+
+    if (line.name === 'END') {
+      if (inEvent && nestedDepth > 0) nestedDepth--;
+      else if (inEvent && value === 'VEVENT') break;
+      continue;
+    }
+
+    if (!inEvent || nestedDepth > 0) continue;
+
+    const text = unescapeValue(line.value);
+
+    switch (line.name) {
+      case 'SUMMARY':
+        event.summary = text.trim();
+        break;
+
+      case 'DTSTART':
+        event.start = parseDateTime(line);
+        break;
+
+      case 'DTEND':
+        event.end = parseDateTime(line);
+        break;
+
+      case 'DURATION':
+        event.duration = line.value.trim();
+        break;
+
+      case 'LOCATION':
+        event.location = text.trim();
+        break;
+
+      case 'DESCRIPTION':
+        event.description = text.trim();
+        break;
+
+      case 'RRULE':
+        event.rrule = line.value.trim();
+        break;
+
+      case 'ORGANIZER':
+        event.organizer = line.params.CN?.[0] ?? text.trim().replace(/^mailto:/i, '');
+        break;
+
+      case 'URL':
+        event.url = text.trim();
+        break;
+
+      case 'UID':
+        event.uid = text.trim();
+        break;
+    }
+  }
+
+  return event;
+}
+
+// Offset of a time zone from UTC at the given instant, in milliseconds
+function timeZoneOffset(timeZone: string, instant: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit'
+  }).formatToParts(instant);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return asUtc - instant.getTime();
+}
+
+/**
+ * Converts a calendar date-time to an instant. TZID times are resolved with
+ * Intl; floating times and all-day dates are read in the local time zone.
+ */
+export function toDate(dateTime: CalendarDateTime): Date | null {
+  const match = dateTime.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2}))?/);
+  if (!match) return null;
+
+  const [year, month, day, hour = 0, minute = 0, second = 0] = match.slice(1).map(part => Number(part ?? 0));
+
+  if (dateTime.utc) {
+    return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  }
+
+  if (dateTime.timezone && !dateTime.allDay) {
+    try {
+      const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+      // Two passes settle the offset around daylight saving transitions
+      let instant = wallClock - timeZoneOffset(dateTime.timezone, new Date(wallClock));
+      instant = wallClock - timeZoneOffset(dateTime.timezone, new Date(instant));
+      return new Date(instant);
+    } catch {
+      // Unknown TZID: fall back to reading it as local time
+    }
+  }
+
+  return new Date(year, month - 1, day, hour, minute, second);
+}
+
+/** Parses an ISO 8601 duration such as "PT1H30M" or "P1W" into milliseconds. */
+export function parseDuration(duration: string): number | null {
+  const match = duration.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = ((Number(weeks ?? 0) * 7 + Number(days ?? 0)) * 24 * 3600 +
+    Number(hours ?? 0) * 3600 + Number(minutes ?? 0) * 60 + Number(seconds ?? 0)) * 1000;
+  return sign === '-' ? -total : total;
+}
+
+export function getEventEnd(event: CalendarEvent): Date | null {
+  if (event.end) return toDate(event.end);
+  if (!event.start) return null;
+
+  const start = toDate(event.start);
+  const duration = event.duration ? parseDuration(event.duration) : null;
+  if (!start || duration === null) return null;
+  return new Date(start.getTime() + duration);
+}
+
+export function formatEventTime(event: CalendarEvent, locale?: string): string | null {
+  if (!event.start) return null;
+
+  const start = toDate(event.start);
+  if (!start) return null;
+
+  const end = getEventEnd(event);
+  const dateOptions: Intl.DateTimeFormatOptions = { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' };
+  const timeOptions: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' };
+
+  if (event.start.allDay) {
+    // DTEND of an all-day event is exclusive
+    const lastDay = end ? new Date(end.getTime() - 24 * 3600 * 1000) : null;
+    const first = start.toLocaleDateString(locale, dateOptions);
+    return lastDay && lastDay > start ? `${first} – ${lastDay.toLocaleDateString(locale, dateOptions)} (all day)` : `${first} (all day)`;
+  }
+
+  const startText = start.toLocaleString(locale, { ...dateOptions, ...timeOptions });
+  if (!end) return startText;
+
+  const sameDay = start.toDateString() === end.toDateString();
+  const endText = sameDay ? end.toLocaleTimeString(locale, timeOptions) : end.toLocaleString(locale, { ...dateOptions, ...timeOptions });
+  return `${startText} – ${endText}`;
+}
+
+/** Describes an RRULE in plain English, e.g. "Every 2 weeks on Mon, Wed, 10 times". */
+export function describeRecurrence(rrule: string): string {
+  const parts = new Map(rrule.split(';').map(part => {
+    const [key, value = ''] = part.split('=');
+    return [key.toUpperCase(), value] as const;
+  }));
+
+  const frequency = FREQUENCIES[parts.get('FREQ')?.toUpperCase() ?? ''];
+  if (!frequency) return rrule;
+
+  const interval = Number(parts.get('INTERVAL') ?? 1);
+  let text = interval > 1 ? `Every ${interval} ${frequency[1]}` : `Every ${frequency[0]}`;
+
+  const byDay = parts.get('BYDAY');
+  if (byDay) {
+    const days = byDay.split(',').map(day => {
+      const match = day.match(/^([+-]?\d+)?([A-Z]{2})$/i);
+      if (!match) return day;
+      const name = WEEKDAYS[match[2].toUpperCase()] ?? match[2];
+      return match[1] ? `${match[1]}. ${name}` : name;
+    });
+    text += ` on ${days.join(', ')}`;
+  }
+
+  const byMonthDay = parts.get('BYMONTHDAY');
+  if (byMonthDay) text += ` on day ${byMonthDay.split(',').join(', ')}`;
+
+  const count = parts.get('COUNT');
+  const until = parts.get('UNTIL');
+  if (count) {
+    text += `, ${count} times`;
+  } else if (until) {
+    const untilDate = toDate({ value: until, utc: until.endsWith('Z'), allDay: until.length === 8 });
+    text += `, until ${untilDate ? untilDate.toLocaleDateString() : until}`;
+  }
+
+  return text;
+}
+
+function escapeCalendarText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,');
+}
+
+function formatUtcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function dateTimeProperty(name: string, dateTime: CalendarDateTime): string {
+  if (dateTime.allDay) return `${name};VALUE=DATE:${dateTime.value.slice(0, 8)}`;
+
+  // A TZID needs a matching VTIMEZONE, which the scanned payload may not carry,
+  // so zoned times are exported as the UTC instant they resolve to
+  if (dateTime.timezone && !dateTime.utc) {
+    const instant = toDate(dateTime);
+    if (instant) return `${name}:${formatUtcStamp(instant)}`;
+  }
+
+  return `${name}:${dateTime.value}`;
+}
+
+function utf8Length(char: string): number {
+  const codePoint = char.codePointAt(0)!;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+}
+
+// Content lines longer than 75 octets must be folded, without splitting a
+// UTF-8 sequence; the leading space counts towards each continuation line
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  let limit = 75;
+
+  for (const char of line) {
+    const length = utf8Length(char);
+    if (octets + length > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+      limit = 74;
+    }
+    chunk += char;
+    octets += length;
+  }
+
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+/** Builds a standalone .ics calendar for importing the event. */
+export function buildIcsFile(event: CalendarEvent): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Prismio//QR Code Scanner//EN',
+    'BEGIN:VEVENT',
+    `UID:${event.uid ?? `${Date.now()}-${Math.random().toString(36).slice(2)}@prismio`}`,
+    `DTSTAMP:${formatUtcStamp(new Date())}`
+  ];
+
+  if (event.start) lines.push(dateTimeProperty('DTSTART', event.start));
+  if (event.end) lines.push(dateTimeProperty('DTEND', event.end));
+  else if (event.duration) lines.push(`DURATION:${event.duration}`);
+  if (event.summary) lines.push(`SUMMARY:${escapeCalendarText(event.summary)}`);
+  if (event.location) lines.push(`LOCATION:${escapeCalendarText(event.location)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeCalendarText(event.description)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { scanVideoFrames } from './scan-camera';
+import { parseContent } from './scan-content-utils';
+import { ProcessingStrategy, QRResult } from './scan-preprocessing';
+import { TestImageData, blankImage, renderQrCodes } from './scan-test-images';
+
+// A playing video whose frames are still images, shown one per grab
+function createStillImageVideo(frames: ImageData[]) {
+  const video = { videoWidth: frames[0].width, videoHeight: frames[0].height, grabs: 0, grabbedAt: [] as number[] };
+  const context = {
+    drawImage: () => {
+      video.grabs++;
+      video.grabbedAt.push(Date.now());
+    },
+    getImageData: () => frames[Math.min(video.grabs - 1, frames.length - 1)]
+  };
+  const canvas = { width: 0, height: 0, getContext: () => context };
+  vi.stubGlobal('document', { createElement: () => canvas });
+
+  return video as typeof video & HTMLVideoElement;
+}
+
+// A strategy that takes the given time to run, simulated by moving the clock
+function slowStrategy(ms: number): ProcessingStrategy {
+  return {
+    name: `slow-${ms}`,
+    progress: 50,
+    fn: imageData => {
+      vi.setSystemTime(Date.now() + ms);
+      return imageData;
+    }
+  };
+}
+
+function gaps(times: number[]): number[] {
+  return times.slice(1).map((time, i) => time - times[i]);
+}
+
+describe('scanVideoFrames', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('ImageData', TestImageData);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('grabs at most one frame per interval', async () => {
+    const video = createStillImageVideo([blankImage(120, 120)]);
+    const onResult = vi.fn();
+
+    const stop = scanVideoFrames(video, { intervalMs: 500, onResult });
+    await vi.advanceTimersByTimeAsync(1900);
+    stop();
+
+    expect(video.grabs).toBe(4);
+    expect(onResult).not.toHaveBeenCalled();
+  });
+
+  it('counts decoding time towards the interval', async () => {
+    const video = createStillImageVideo([blankImage(120, 120)]);
+
+    const stop = scanVideoFrames(video, { intervalMs: 250, strategies: [slowStrategy(100)], onResult: vi.fn() });
+    await vi.advanceTimersByTimeAsync(1000);
+    stop();
+
+    expect(gaps(video.grabbedAt.slice(0, 4))).toEqual([250, 250, 250]);
+  });
+
+  it('waits for a slow frame before grabbing the next one', async () => {
+    const video = createStillImageVideo([blankImage(120, 120)]);
+
+    const stop = scanVideoFrames(video, { intervalMs: 250, strategies: [slowStrategy(400), slowStrategy(200)], onResult: vi.fn() });
+    await vi.advanceTimersByTimeAsync(1000);
+    stop();
+
+    // The next frame follows right after the 600 ms decode instead of another interval later
+    for (const gap of gaps(video.grabbedAt.slice(0, 4))) {
+      expect(gap).toBeGreaterThanOrEqual(600);
+      expect(gap).toBeLessThan(650);
+    }
+  });
+
+  it('hands the first decoded code over and stops scanning', async () => {
+    const code = renderQrCodes([{ text: 'WIFI:S:Home;T:WPA;P:secret;;' }], { width: 200, height: 200 });
+    const video = createStillImageVideo([blankImage(200, 200), blankImage(200, 200), code]);
+    const onResult = vi.fn<(result: QRResult) => void>();
+
+    scanVideoFrames(video, { intervalMs: 250, onResult });
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(video.grabs).toBe(3);
+    expect(onResult).toHaveBeenCalledTimes(1);
+    expect(parseContent(onResult.mock.calls[0][0].data)).toMatchObject({
+      type: 'wifi',
+      data: { ssid: 'Home', password: 'secret' }
+    });
+  });
+
+  it('grabs no more frames once stopped', async () => {
+    const video = createStillImageVideo([blankImage(120, 120)]);
+
+    const stop = scanVideoFrames(video, { intervalMs: 100, onResult: vi.fn() });
+    await vi.advanceTimersByTimeAsync(0);
+    stop();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(video.grabs).toBe(1);
+  });
+});
@@ -0,0 +1,136 @@
+import { isAbortError, processImage, processingStrategies, ProcessingStrategy, QRResult } from './scan-preprocessing';
+
+export type CameraFacing = 'environment' | 'user';
+
+export interface CameraOptions {
+  facingMode?: CameraFacing;
+  deviceId?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface FrameScanOptions {
+  // Minimum time between two scanned frames
+  intervalMs?: number;
+  // Strategies tried per frame - the cheap ones by default to keep up with the stream
+  strategies?: ProcessingStrategy[];
+  onResult: (result: QRResult) => void;
+  onError?: (error: unknown) => void;
+}
+
+export const liveStrategies: ProcessingStrategy[] = processingStrategies.filter(strategy =>
+  ['Direct Detection', 'Enhanced Contrast', 'Binary Threshold', 'Color Inversion'].includes(strategy.name)
+);
+
+export function isCameraSupported(): boolean {
+  return typeof navigator !== 'undefined' &&
+    !!navigator.mediaDevices &&
+    typeof navigator.mediaDevices.getUserMedia === 'function';
+}
+
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  if (!isCameraSupported()) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+}
+
+export async function startCamera(options: CameraOptions = {}): Promise<MediaStream> {
+  if (!isCameraSupported()) {
+    throw new Error('Camera access is not supported in this browser');
+  }
+
+  const video: MediaTrackConstraints = {
+    width: { ideal: options.width ?? 1280 },
+    height: { ideal: options.height ?? 720 }
+  };
+
+  if (options.deviceId) {
+    video.deviceId = { exact: options.deviceId };
+  } else {
+    video.facingMode = { ideal: options.facingMode ?? 'environment' };
+  }
+
+  return navigator.mediaDevices.getUserMedia({ video, audio: false });
+}
+
+export function stopCamera(stream: MediaStream | null) {
+  stream?.getTracks().forEach(track => track.stop());
+}
+
+export function isTorchSupported(stream: MediaStream): boolean {
+  const [track] = stream.getVideoTracks();
+  if (!track || typeof track.getCapabilities !== 'function') return false;
+  const capabilities = track.getCapabilities() as MediaTrackCapabilities & { torch?: boolean };
+  return !!capabilities.torch;
+}
+
+export async function setTorch(stream: MediaStream, enabled: boolean): Promise<void> {
+  const [track] = stream.getVideoTracks();
+  if (!track || !isTorchSupported(stream)) return;
+  await track.applyConstraints({
+    advanced: [{ torch: enabled } as MediaTrackConstraintSet]
+  });
+}
+
+export function captureFrame(video: HTMLVideoElement, canvas: HTMLCanvasElement): ImageData | null {
+  const width = video.videoWidth;
+  const height = video.videoHeight;
+  if (!width || !height) return null;
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas context not available');
+
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+  ctx.drawImage(video, 0, 0, width, height);
+
+  return ctx.getImageData(0, 0, width, height);
+}
+
+/**
+ * Continuously scans frames from a playing video element until a QR code is found
+ * or the returned stop function is called. A new frame is only grabbed once the
+ * previous one has finished processing and intervalMs has elapsed.
+ */
+export function scanVideoFrames(video: HTMLVideoElement, options: FrameScanOptions): () => void {
+  const intervalMs = options.intervalMs ?? 250;
+  const strategies = options.strategies ?? liveStrategies;
+  const canvas = document.createElement('canvas');
+  const controller = new AbortController();
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const tick = async () => {
+    if (stopped) return;
+    const startedAt = Date.now();
+
+    try {
+      const imageData = captureFrame(video, canvas);
+      if (imageData) {
+        const result = await processImage(canvas, imageData, () => {}, { strategies, signal: controller.signal });
+        if (result && !stopped) {
+          stopped = true;
+          options.onResult(result);
+          return;
+        }
+      }
+    } catch (error) {
+      if (isAbortError(error)) return;
+      options.onError?.(error);
+    }
+
+    if (!stopped) {
+      const elapsed = Date.now() - startedAt;
+      timer = setTimeout(tick, Math.max(0, intervalMs - elapsed));
+    }
+  };
+
+  timer = setTimeout(tick, 0);
+
+  return () => {
+    stopped = true;
+    controller.abort();
+    if (timer) clearTimeout(timer);
+  };
+}
+
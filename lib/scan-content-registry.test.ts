@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseContent } from './scan-content-utils';
+import { isParsedContent } from './scan-content-validation';
+import { ContentHandler, getContentHandler, registerContentHandler, unregisterContentHandler } from './scan-content-registry';
+
+function failing(stage: 'detect' | 'parse' | 'describe' | 'actions'): ContentHandler<string> {
+  const fail = () => {
+    throw new Error('boom');
+  };
+
+  return {
+    name: 'broken',
+    label: 'Broken',
+    priority: 200,
+    detect: stage === 'detect' ? fail : () => 1,
+    parse: stage === 'parse' ? fail : content => content,
+    describe: stage === 'describe' ? fail : value => value,
+    actions: stage === 'actions' ? fail : () => []
+  };
+}
+
+describe('broken content handlers', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    unregisterContentHandler('broken');
+    vi.restoreAllMocks();
+  });
+
+  it.each(['detect', 'parse', 'describe', 'actions'] as const)('are skipped when %s throws', stage => {
+    registerContentHandler(failing(stage));
+
+    expect(parseContent('hello').type).toBe('text');
+    expect(parseContent('https://example.com').type).toBe('url');
+    expect(console.error).toHaveBeenCalled();
+  });
+});
+
+describe('replaced built-in handlers', () => {
+  const builtInUrl = getContentHandler('url')!;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    registerContentHandler(builtInUrl, { replace: true });
+    vi.restoreAllMocks();
+  });
+
+  it('fall through when the payload does not match the built-in shape', () => {
+    registerContentHandler({ ...builtInUrl, parse: content => ({ href: content }) }, { replace: true });
+
+    const parsed = parseContent('https://example.com');
+    expect(parsed.type).toBe('text');
+    expect(isParsedContent(parsed)).toBe(true);
+  });
+
+  it('are used when the payload keeps the built-in shape', () => {
+    registerContentHandler({ ...builtInUrl, describe: () => 'Replaced' }, { replace: true });
+
+    const parsed = parseContent('https://example.com');
+    expect(parsed).toMatchObject({ type: 'url', displayText: 'Replaced' });
+    expect(isParsedContent(parsed)).toBe(true);
+  });
+});
@@ -0,0 +1,86 @@
+import type { ReactNode } from 'react';
+import type { ContentAction } from './scan-content-utils';
+
+export interface ContentHandler<T = unknown> {
+  // Unique name; built-in handlers are named after their content type
+  name: string;
+  // Shown with the result, e.g. "Calendar Event"
+  label: string;
+  // Breaks ties between equally confident handlers; built-in handlers use 0–100
+  priority: number;
+  // Confidence from 0 (not this format) to 1 (certain)
+  detect(content: string): number;
+  // null when the payload is malformed, so the next matching handler is tried
+  parse(content: string): T | null;
+  // One-line summary used as the display text
+  describe(data: T, content: string): string;
+  // Multi-line text for copying; defaults to the summary
+  format?(data: T): string;
+  actions?(data: T, content: string): ContentAction[];
+  // Custom result view; the generic text view is used without one
+  render?(data: T): ReactNode;
+}
+
+export interface RegisterContentHandlerOptions {
+  // Replacing a built-in handler must keep its payload shape
+  replace?: boolean;
+}
+
+export interface ContentMatch {
+  handler: ContentHandler;
+  confidence: number;
+}
+
+interface RegistryEntry {
+  handler: ContentHandler;
+  order: number;
+}
+
+const registry = new Map<string, RegistryEntry>();
+let nextOrder = 0;
+
+export function registerContentHandler<T>(handler: ContentHandler<T>, options: RegisterContentHandlerOptions = {}) {
+  const existing = registry.get(handler.name);
+  if (existing && !options.replace) {
+    throw new Error(`Content handler "${handler.name}" is already registered`);
+  }
+
+  registry.set(handler.name, {
+    handler,
+    order: existing?.order ?? nextOrder++
+  });
+}
+
+export function unregisterContentHandler(name: string): boolean {
+  return registry.delete(name);
+}
+
+export function getContentHandler(name: string): ContentHandler | undefined {
+  return registry.get(name)?.handler;
+}
+
+/** Returns the registered handlers by descending priority; ties keep registration order. */
+export function getContentHandlers(): ContentHandler[] {
+  return [...registry.values()]
+    .sort((a, b) => b.handler.priority - a.handler.priority || a.order - b.order)
+    .map(entry => entry.handler);
+}
+
+// A handler whose detect throws is skipped, so one broken plug-in cannot break every scan
+function detectSafely(handler: ContentHandler, content: string): number {
+  try {
+    return Math.min(Math.max(handler.detect(content), 0), 1);
+  } catch (error) {
+    console.error(`Content handler "${handler.name}" failed to detect content:`, error);
+    return 0;
+  }
+}
+
+/** Asks every handler about the content and returns those that recognise it, most confident first. */
+export function matchContentHandlers(content: string): ContentMatch[] {
+  return getContentHandlers()
+    .map(handler => ({ handler, confidence: detectSafely(handler, content) }))
+    .filter(match => match.confidence > 0)
+    // Array.prototype.sort is stable, so equal confidences stay in priority order
+    .sort((a, b) => b.confidence - a.confidence);
+}
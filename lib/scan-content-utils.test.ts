@@ -0,0 +1,310 @@
+import { describe, expect, it } from 'vitest';
+import { ContentType, detectContentType, parseContent } from './scan-content-utils';
+import { isParsedContent } from './scan-content-validation';
+
+// Real-world QR payloads and the type each one must be classified as
+const corpus: Partial<Record<ContentType, string[]>> = {
+  url: [
+    // Web schemes
+    'https://example.com',
+    'http://example.com',
+    'HTTPS://EXAMPLE.COM/PATH',
+    'https://www.google.com/search?q=qr+code',
+    'https://en.wikipedia.org/wiki/QR_code',
+    'https://github.com/cozmo/jsQR',
+    'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+    'https://youtu.be/dQw4w9WgXcQ',
+    'https://bit.ly/3xYzAbc',
+    'https://t.co/abc123',
+    'https://tinyurl.com/y8x7z6w5',
+    'https://apps.apple.com/us/app/id123456789',
+    'https://play.google.com/store/apps/details?id=com.example.app',
+    'https://www.instagram.com/example/',
+    'https://twitter.com/example/status/1234567890',
+    'https://x.com/example',
+    'https://www.facebook.com/example',
+    'https://www.linkedin.com/in/example',
+    'https://wa.me/15551234567',
+    'https://t.me/example',
+    'https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC',
+    'https://www.amazon.de/dp/B08N5WRWNW',
+    'https://www.bbc.co.uk/news',
+    'https://example.com.au/menu.pdf',
+    'https://shop.example.co.jp/item/123',
+    'https://example.com:8443/login',
+    'http://example.com/path/to/page.html?utm_source=qr&utm_medium=print',
+    'https://example.com/#section',
+    'https://user@example.com/',
+    'https://example.org/a%20b',
+    'https://api.example.io/v1/items',
+    'https://example.dev',
+    'https://example.app/download',
+    'https://menu.example.restaurant/',
+    'https://example.museum',
+    'https://bücher.de',
+    'https://xn--bcher-kva.de',
+    'http://192.168.1.1',
+    'http://192.168.0.1/admin',
+    'https://[2001:db8::1]/',
+    'http://localhost',
+    'http://localhost:3000/scan',
+    'https://pay.example.com/invoice?id=INV-2024-001',
+    'https://docs.google.com/forms/d/e/1FAIpQLSf/viewform',
+    'https://zoom.us/j/1234567890?pwd=abc',
+    'https://meet.google.com/abc-defg-hij',
+    'https://www.eventbrite.com/e/123456789',
+    'https://covid-status.service.nhsx.nhs.uk/',
+    'https://example.gov.uk/apply',
+    'https://www.example.edu/campus-map',
+    // Scheme-less hosts
+    'example.com',
+    'www.example.com',
+    'WWW.EXAMPLE.COM',
+    'example.org/about',
+    'www.bbc.co.uk',
+    'shop.example.de/product?id=42',
+    'example.com:8080',
+    'example.io/#/dashboard',
+    'sub.domain.example.net',
+    'hello.world',
+    'www.readme.md',
+    'example.md/docs',
+    'bücher.de',
+    'localhost:3000',
+    'localhost:8080/api/health',
+    '192.168.1.1:8080',
+    '10.0.0.1/admin'
+  ],
+
+  text: [
+    // Version strings
+    '1.2.3',
+    'v1.2.3',
+    'v1.2.config',
+    'version 2.0.1',
+    '2.4.1-beta.3',
+    '10.0.19045',
+    '3.14159',
+    '192.168.1.1',
+    // File names
+    'notes.md',
+    'README.md',
+    'script.py',
+    'install.sh',
+    'archive.zip',
+    'holiday.mov',
+    'report.pdf',
+    'photo.jpeg',
+    'config.yaml',
+    'package.json',
+    'index.html',
+    'main.rs',
+    'lib.so',
+    'setup.exe',
+    // Non-web schemes without a handler
+    'javascript:alert(1)',
+    'JavaScript:void(0)',
+    'data:text/html,<script>alert(1)</script>',
+    'ftp://ftp.example.com/file.txt',
+    'file:///etc/passwd',
+    'vbscript:msgbox(1)',
+    'about:blank',
+    'chrome://settings',
+    'intent://scan/#Intent;scheme=zxing;package=com.google.zxing.client.android;end',
+    'market://details?id=com.example.app',
+    'itms-apps://itunes.apple.com/app/id123456789',
+    'spotify:track:4uLU6hMCjMI75M1A2tKUQC',
+    'whatsapp://send?text=Hello',
+    'fb://profile/123456',
+    'slack://open',
+    'steam://run/440',
+    'magnet:?xt=urn:btih:c12fe1c06bba254a9dc9f519b335aa7c1367a88a',
+    'urn:isbn:9780143127741',
+    'ssh://user@example.com',
+    'smb://server/share',
+    'litecoin:LQL9pVH1LsMfKwt82Y2wGhNGkrjF8vwUst',
+    'ws://example.com/socket',
+    'printer:631/ipp',
+    // Plain text
+    'Hello, world!',
+    'Hello world',
+    'localhost',
+    'Table 12',
+    'Order #12345',
+    'SN: 4C-1A-9F-22-10',
+    'Lorem ipsum dolor sit amet, consectetur adipiscing elit.',
+    'Thank you for visiting!',
+    'ABC-123-XYZ',
+    '978-3-16-148410-0',
+    '4006381333931',
+    'LOT 2024-05-17 EXP 2026-05',
+    'Room 4.12',
+    'e.g. this',
+    'i.e.',
+    'Mr. Smith',
+    'example .com',
+    'https://exa mple.com',
+    'example.invalidtld',
+    'foo.bar.baz',
+    'not-an-email@',
+    '@handle',
+    'user@localhost',
+    'Meet me at 5:30',
+    'Ratio 16:9',
+    'Chapter 3: Results',
+    'Note: bring ID',
+    '12:45',
+    '{"id": 42, "name": "Widget"}',
+    '<xml><item>1</item></xml>',
+    'P:secret;S:Home;',
+    'BEGIN:VCALENDAR',
+    'SEPA transfer reference 123',
+    'bitcoin',
+    'The quick brown fox jumps over the lazy dog',
+    'Ünïcödé tëxt',
+    '二维码',
+    '😀👍',
+    '12345'
+  ],
+
+  email: [
+    'someone@example.com',
+    'first.last+tag@example.co.uk',
+    'USER@EXAMPLE.ORG',
+    'info@bücher.de',
+    'mailto:someone@example.com',
+    'MAILTO:SOMEONE@EXAMPLE.COM',
+    'mailto:someone@example.com?subject=Hello',
+    'mailto:someone@example.com?subject=Hello%20there&body=Line%201%0D%0ALine%202',
+    'mailto:a@example.com,b@example.com?cc=c@example.com&bcc=d@example.com',
+    'mailto:?subject=Feedback&body=Hi',
+    'mailto:?to=someone@example.com',
+    'MATMSG:TO:someone@example.com;SUB:Hello;BODY:How are you?;;',
+    'MATMSG:TO:a@example.com,b@example.com;SUB:Meeting;;',
+    'matmsg:to:someone@example.com;;'
+  ],
+
+  phone: [
+    'tel:+15551234567',
+    'TEL:+15551234567',
+    'tel:112',
+    'tel:911',
+    'tel:+44 20 7946 0958',
+    'tel:+49-30-1234567',
+    'tel:(555) 123-4567',
+    'tel:+15551234567;ext=123',
+    '+15551234567',
+    '+1 (555) 123-4567',
+    '+44 20 7946 0958',
+    '+49 30 1234567',
+    '+33 1 23 45 67 89',
+    '+81 3-1234-5678',
+    '(555) 123-4567',
+    '555-123-4567'
+  ],
+
+  sms: [
+    'sms:+15551234567',
+    'SMS:+15551234567',
+    'sms:12345',
+    'sms:+15551234567?body=Hello',
+    'sms:+15551234567?body=Hello%20there',
+    'smsto:+15551234567:Hello',
+    'SMSTO:+15551234567:Reply STOP to opt out'
+  ],
+
+  wifi: [
+    'WIFI:S:Home;T:WPA;P:secret;;',
+    'WIFI:T:WPA;S:Home;P:secret;;',
+    'WIFI:S:Cafe Guest;T:nopass;;',
+    'WIFI:S:Office;T:WEP;P:0123456789;H:true;;',
+    'WIFI:S:My\\;Net;T:WPA;P:pa\\:ss;;',
+    'WIFI:S:Corp;T:WPA2-EAP;E:PEAP;PH2:MSCHAPV2;I:alice;P:secret;;',
+    'wifi:S:lowercase;T:WPA;P:secret;;'
+  ],
+
+  location: [
+    'geo:52.516275,13.377704',
+    'GEO:52.516275,13.377704',
+    'geo:48.2010,16.3695,183',
+    'geo:48.198634,16.371648;crs=wgs84;u=40',
+    'geo:37.786971,-122.399677;u=35?q=Home',
+    'geo:0,0?q=1600+Amphitheatre+Parkway',
+    'geo:0,0?q=52.5,13.4(Brandenburg Gate)',
+    'geo:40.7128,-74.0060?z=12',
+    'geo:-33.8688,151.2093',
+    'https://maps.google.com/?q=52.516275,13.377704',
+    'https://www.google.com/maps/place/Brandenburg+Gate/@52.516275,13.377704,17z',
+    'https://www.google.com/maps/search/?api=1&query=Eiffel+Tower',
+    'https://www.google.de/maps/@52.5,13.4,15z',
+    'https://maps.apple.com/?ll=52.516275,13.377704&q=Brandenburg%20Gate',
+    'https://maps.apple.com/?address=1%20Infinite%20Loop,%20Cupertino',
+    'https://www.openstreetmap.org/?mlat=52.5163&mlon=13.3777#map=17/52.5163/13.3777',
+    'https://www.openstreetmap.org/#map=15/48.8584/2.2945',
+    'https://www.openstreetmap.org/search?query=Vienna',
+    'maps.google.com/?q=40.7128,-74.0060'
+  ],
+
+  event: [
+    'BEGIN:VEVENT\nSUMMARY:Team meeting\nDTSTART:20250115T100000Z\nDTEND:20250115T110000Z\nEND:VEVENT',
+    'BEGIN:VCALENDAR\nVERSION:2.0\nBEGIN:VEVENT\nSUMMARY:Launch\nDTSTART:20250301T090000\nLOCATION:Berlin\nEND:VEVENT\nEND:VCALENDAR',
+    'BEGIN:VEVENT\r\nSUMMARY:All day\r\nDTSTART;VALUE=DATE:20250704\r\nEND:VEVENT',
+    'BEGIN:VEVENT\nSUMMARY:Weekly sync\nDTSTART;TZID=Europe/Berlin:20250106T093000\nRRULE:FREQ=WEEKLY;BYDAY=MO\nEND:VEVENT'
+  ],
+
+  vcard: [
+    'BEGIN:VCARD\nVERSION:3.0\nFN:Jane Doe\nTEL:+15551234567\nEND:VCARD',
+    'BEGIN:VCARD\r\nVERSION:4.0\r\nN:Doe;Jane;;;\r\nFN:Jane Doe\r\nEMAIL:jane@example.com\r\nEND:VCARD',
+    'BEGIN:VCARD\nVERSION:2.1\nN:Doe;John\nTEL;CELL:+15551234567\nEND:VCARD',
+    'MECARD:N:Doe,Jane;TEL:+15551234567;EMAIL:jane@example.com;;',
+    'MECARD:N:Doe,John;ADR:1 Main St,Springfield;URL:https://example.com;;',
+    'BIZCARD:N:Jane;X:Doe;T:Engineer;C:Example Inc;B:+15551234567;E:jane@example.com;;'
+  ],
+
+  epc: [
+    'BCD\n002\n1\nSCT\nBFSWDE33BER\nWikimedia Foerdergesellschaft\nDE33100205000001194700\nEUR123.45\n\n\nSpende fuer Wikipedia',
+    'BCD\n001\n1\nSCT\nCOBADEFFXXX\nMax Mustermann\nDE89370400440532013000\nEUR10.00\n\n\nInvoice 42',
+    'BCD\r\n002\r\n1\r\nSCT\r\n\r\nJane Doe\r\nAT611904300234573201\r\nEUR5\r\n\r\n\r\nThanks'
+  ],
+
+  'swiss-qr': [
+    'SPC\n0200\n1\nCH4431999123000889012\nS\nRobert Schneider AG\nRue du Lac\n1268\n2501\nBiel\nCH\n\n\n\n\n\n\n\n1949.75\nCHF\nS\nPia-Maria Rutschmann-Schnyder\nGrosse Marktgasse\n28\n9400\nRorschach\nCH\nQRR\n210000000003139471430009017\nOrder of 15 June 2020\nEPD'
+  ],
+
+  crypto: [
+    'bitcoin:1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa',
+    'bitcoin:1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa?amount=0.01&label=Donation',
+    'BITCOIN:BC1QAR0SRRR7XFKVY5L643LYDNW9RE59GTZZWF5MDQ',
+    'bitcoin:bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq',
+    'ethereum:0xfb6916095ca1df60bb79Ce92ce3ea74c37c5d359',
+    'ethereum:0xfb6916095ca1df60bb79Ce92ce3ea74c37c5d359@1?value=2.014e18'
+  ],
+
+  otp: [
+    'otpauth://totp/Example:alice@example.com?secret=JBSWY3DPEHPK3PXP&issuer=Example',
+    'otpauth://totp/alice?secret=JBSWY3DPEHPK3PXP',
+    'otpauth://hotp/Example:alice?secret=JBSWY3DPEHPK3PXP&counter=0',
+    'OTPAUTH://TOTP/Example?secret=JBSWY3DPEHPK3PXP',
+    'otpauth://totp/ACME%20Co:john.doe@email.com?secret=HXDMVJECJJWSRB3HWIZR4IFUGFTMXBOZ&issuer=ACME%20Co&algorithm=SHA1&digits=6&period=30'
+  ],
+
+  empty: ['', '   ', '\n\t']
+};
+
+describe('detectContentType', () => {
+  for (const [type, payloads] of Object.entries(corpus)) {
+    it.each(payloads)(`classifies %j as ${type}`, payload => {
+      expect(detectContentType(payload)).toBe(type);
+    });
+  }
+});
+
+describe('parseContent', () => {
+  for (const [type, payloads] of Object.entries(corpus)) {
+    it.each(payloads)(`parses %j into a valid ${type} payload`, payload => {
+      const parsed = parseContent(payload);
+      expect(parsed.type).toBe(type);
+      expect(isParsedContent(parsed)).toBe(true);
+    });
+  }
+});
@@ -1,3 +1,36 @@
+import { CalendarEvent, describeRecurrence, formatEventTime, isCalendarEvent, parseCalendarEvent } from './scan-calendar';
+import { CryptoPayment, formatCryptoAmount, isCryptoPayment, parseCryptoPayment } from './scan-crypto';
+import { ContentHandler, getContentHandler, matchContentHandlers, registerContentHandler } from './scan-content-registry';
+import { isParsedContent } from './scan-content-validation';
+import { EmailDraft, isEmailAddress, isMatMsg, parseEmail } from './scan-email';
+import { GeoLocation, buildGeoUri, formatCoordinates, hasCoordinates, parseGeoUri, parseMapUrl } from './scan-geo';
+import { isBizCard, isMeCard, parseBizCard, parseMeCard } from './scan-mecard';
+import { OtpAccount, describeOtpAccount, parseOtpAuthUri } from './scan-otp';
+import { PhoneNumber, getDialableNumber, isPhoneNumber, parsePhoneNumber } from './scan-phone';
+import {
+  PaymentDetails,
+  formatIban,
+  formatPaymentAmount,
+  isEpcPayment,
+  isSwissQrBill,
+  parseEpcPayment,
+  parseSwissQrBill
+} from './scan-payment';
+import { getUriScheme, isWebUrl } from './scan-url';
+import { UrlSafetyReport, inspectUrl } from './scan-url-safety';
+import { WifiNetwork, describeWifiSecurity, isWifiPayload, parseWifi } from './scan-wifi';
+import {
+  ContentLine,
+  VCardParameters,
+  addUnmappedField,
+  buildVCardPayload,
+  formatBirthday,
+  getLineTypes,
+  parseContentLines,
+  splitEscaped,
+  unescapeValue
+} from './scan-vcard';
+
 export type ContentType = 
   | 'vcard' 
   | 'url' 
@@ -6,45 +39,117 @@ export type ContentType =
   | 'wifi' 
   | 'location' 
   | 'sms' 
+  | 'event'
+  | 'epc'
+  | 'swiss-qr'
+  | 'crypto'
+  | 'otp'
+  | 'custom'
   | 'text' 
   | 'empty';
 
-export interface ParsedContent {
-  type: ContentType;
-  data: any;
-  displayText: string;
-  actions: ContentAction[];
+export interface UrlContent {
+  // Address that is opened, with https:// added when the payload had no scheme
+  url: string;
+  original: string;
+  safety: UrlSafetyReport;
+}
+
+export interface PhoneContent {
+  phone: string;
+  number: PhoneNumber;
+}
+
+export interface SmsContent {
+  number: string;
+  message: string;
+  phone?: PhoneNumber;
+}
+
+export interface TextContent {
+  text: string;
+}
+
+export interface CustomContent {
+  // Name of the registered handler that parsed the payload
+  handler: string;
+  value: unknown;
+}
+
+// Payload carried by each content type
+export interface ContentPayloads {
+  vcard: VCardContact;
+  url: UrlContent;
+  email: EmailDraft;
+  phone: PhoneContent;
+  wifi: WifiNetwork;
+  location: GeoLocation;
+  sms: SmsContent;
+  event: CalendarEvent;
+  epc: PaymentDetails;
+  'swiss-qr': PaymentDetails;
+  crypto: CryptoPayment;
+  otp: OtpAccount;
+  custom: CustomContent;
+  text: TextContent;
+  empty: null;
 }
 
+/** Parsed content, discriminated by type so each branch carries its own payload. */
+export type ParsedContent = {
+  [T in ContentType]: {
+    type: T;
+    data: ContentPayloads[T];
+    displayText: string;
+    actions: ContentAction[];
+  };
+}[ContentType];
+
 export interface ContentAction {
   type: 'copy' | 'call' | 'email' | 'open' | 'sms' | 'navigate';
   label: string;
+  // Bare value: text to copy, URL, phone number, email address or geo: URI;
+  // lib/scan-actions.ts turns it into the URI for the device
   value: string;
+  // Prefilled email copy and blind copy recipients (comma-separated) and subject,
+  // and email or SMS body
+  cc?: string;
+  bcc?: string;
+  subject?: string;
+  body?: string;
   icon?: string;
 }
 
 export interface VCardContact {
+  // Payload the contact was read from; absent for contacts built in code
+  format?: 'vcard' | 'mecard' | 'bizcard';
+  version?: string;
   name?: {
     formatted?: string;
     given?: string;
     family?: string;
+    additional?: string;
     prefix?: string;
     suffix?: string;
   };
-  emails?: Array<{
-    type: string;
+  nicknames?: string[];
+  emails?: Array<VCardEntry & {
     value: string;
   }>;
-  phones?: Array<{
-    type: string;
+  phones?: Array<VCardEntry & {
     value: string;
+    // Normalised by parseContact when the number is recognised
+    e164?: string;
+    region?: string;
   }>;
   organization?: {
     name?: string;
+    units?: string[];
     title?: string;
   };
-  addresses?: Array<{
-    type: string;
+  addresses?: Array<VCardEntry & {
+    poBox?: string;
+    extended?: string;
     street?: string;
     city?: string;
     state?: string;
@@ -52,236 +157,435 @@ export interface VCardContact {
     country?: string;
     formatted?: string;
   }>;
-  urls?: Array<{
-    type: string;
+  urls?: Array<VCardEntry & {
     value: string;
   }>;
   notes?: string;
+  // As written in the card, e.g. "1985-04-12" or "--0412" when the year is unknown
+  birthday?: string;
+  // Embedded photos become data: URIs; remote photos keep their URL
+  photo?: {
+    uri: string;
+    mediaType?: string;
+  };
+  geo?: {
+    latitude: number;
+    longitude: number;
+  };
+  timezone?: string;
+  uid?: string;
+  revision?: string;
+  // Repeated keys are numbered ("x-custom", "x-custom-2") so no value is lost
   unmappedFields: Record<string, string>;
 }
 
+export interface VCardEntry {
+  // Primary type used for labels, e.g. "work" or "mobile"
+  type: string;
+  types?: string[];
+  group?: string;
+  params?: VCardParameters;
+}
+
+type BuiltInType = Exclude<ContentType, 'custom' | 'empty'>;
+
+/** Compile-time check that a switch over content types handles every case. */
+export function assertNever(value: never): never {
+  throw new Error(`Unhandled content type: ${JSON.stringify(value)}`);
+}
+
+// 1 when the content is a URI with one of the schemes, otherwise 0
+function schemeConfidence(content: string, ...schemes: string[]): number {
+  const scheme = getUriScheme(content);
+  return scheme && schemes.includes(scheme) ? 1 : 0;
+}
+
 export function detectContentType(content: string): ContentType {
   if (!content || content.trim() === '') {
     return 'empty';
   }
 
-  content = content.trim();
+  const [match] = matchContentHandlers(content.trim());
+  if (!match) return 'text';
+  return isBuiltInType(match.handler.name) ? match.handler.name : 'custom';
+}
 
-  // vCard detection
-  if (content.startsWith('BEGIN:VCARD') && content.includes('END:VCARD')) {
-    return 'vcard';
-  }
+// Types that say nothing about which number or address this is
+const GENERIC_TYPES = new Set(['pref', 'internet', 'voice', 'x400', 'intl', 'postal', 'parcel', 'dom']);
 
-  // WiFi network detection
-  if (content.startsWith('WIFI:')) {
-    return 'wifi';
-  }
+function primaryType(types: string[]): string {
+  return types.find(type => !GENERIC_TYPES.has(type)) || 'default';
+}
 
-  // SMS detection
-  if (content.startsWith('SMSTO:') || content.startsWith('sms:')) {
-    return 'sms';
-  }
+// Clean up phone types - prioritize mobile types, then work, then remove redundant types
+function phoneType(types: string[]): string {
+  if (types.includes('cell') || types.includes('mobile')) return 'mobile';
+  if (types.includes('work')) return 'work';
+  if (types.includes('home')) return 'home';
+  if (types.includes('fax')) return 'fax';
+  return types.find(type => !GENERIC_TYPES.has(type)) || 'phone';
+}
 
-  // Phone detection
-  const phonePattern = /^(\+?[\d\s\-\(\)]{10,})$/;
-  if (phonePattern.test(content) || content.startsWith('tel:')) {
-    return 'phone';
-  }
+function entryFields(line: ContentLine, types: string[], type: string): VCardEntry {
+  return {
+    type,
+    types: types.length > 0 ? types : undefined,
+    group: line.group,
+    params: Object.keys(line.params).length > 0 ? line.params : undefined
+  };
+}
 
-  // Email detection
-  const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  if (emailPattern.test(content) || content.startsWith('mailto:')) {
-    return 'email';
-  }
+function formatAddress(street?: string, city?: string, state?: string, zip?: string, country?: string): string | undefined {
+  const addressParts = [];
+  if (street) addressParts.push(street);
 
-  // Location/GPS detection
-  const geoPattern = /^geo:-?\d+\.?\d*,-?\d+\.?\d*/;
-  if (geoPattern.test(content)) {
-    return 'location';
-  }
+  // Combine zip and city on one line
+  const cityZipLine = [zip, city].filter(Boolean);
+  if (cityZipLine.length > 0) addressParts.push(cityZipLine.join(' '));
 
-  // URL detection
-  try {
-    new URL(content);
-    return 'url';
-  } catch {
-    // Check for common URL patterns without protocol
-    const urlPattern = /^(www\.)?[a-zA-Z0-9][a-zA-Z0-9-]*[a-zA-Z0-9]*\.[a-zA-Z]{2,}/;
-    if (urlPattern.test(content)) {
-      return 'url';
-    }
+  if (state) addressParts.push(state);
+  if (country) addressParts.push(country);
+
+  return addressParts.join(', ') || undefined;
+}
+
+function parsePhoto(line: ContentLine): VCardContact['photo'] {
+  const value = line.value.trim();
+  if (!value) return undefined;
+
+  const encoding = line.params.ENCODING?.[0]?.toUpperCase();
+  if (encoding === 'B' || encoding === 'BASE64') {
+    // vCard 3.0 puts the image format in TYPE, vCard 2.1 in a bare parameter
+    const format = (line.params.TYPE?.[0] ?? 'jpeg').toLowerCase();
+    const mediaType = format.includes('/') ? format : `image/${format}`;
+    return { uri: `data:${mediaType};base64,${value.replace(/\s/g, '')}`, mediaType };
   }
 
-  return 'text';
+  const mediaType = line.params.MEDIATYPE?.[0] ?? value.match(/^data:([^;,]+)/)?.[1];
+  return { uri: value, mediaType };
+}
+
+function parseGeo(value: string): VCardContact['geo'] {
+  // vCard 4.0 uses a geo: URI, vCard 3.0 "lat;lon" and vCard 2.1 "lat,lon"
+  const match = value.trim().replace(/^geo:/i, '').match(/^(-?\d+(?:\.\d+)?)\s*[;,]\s*(-?\d+(?:\.\d+)?)/);
+  if (!match) return undefined;
+
+  const latitude = parseFloat(match[1]);
+  const longitude = parseFloat(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return undefined;
+  return { latitude, longitude };
 }
 
+/**
+ * Parses vCard 2.1, 3.0 and 4.0: lines are unfolded, QUOTED-PRINTABLE and
+ * CHARSET decoded, escapes removed and every parameter kept on the entry.
+ */
 export function parseVCard(vcardString: string): VCardContact {
   const contact: VCardContact = {
+    format: 'vcard',
     unmappedFields: {}
   };
+  const labels: ContentLine[] = [];
 
-  const lines = vcardString
-    .split(/\r?\n/)
-    .map(line => line.trim())
-    .filter(line => line.length > 0);
+  for (const line of parseContentLines(vcardString)) {
+    if (line.name === 'END' && line.value.trim().toUpperCase() === 'VCARD') break;
 
-  for (const line of lines) {
-    if (line.startsWith('BEGIN:') || line.startsWith('END:') || line.startsWith('VERSION:')) {
-      continue;
-    }
+    const text = unescapeValue(line.value);
+    const types = getLineTypes(line);
 
-    const colonIndex = line.indexOf(':');
-    if (colonIndex === -1) continue;
-
-    const fieldPart = line.substring(0, colonIndex);
-    const value = line.substring(colonIndex + 1);
+    switch (line.name) {
+      case 'BEGIN':
+        break;
 
-    const [field, ...params] = fieldPart.split(';');
-    const typeParam = params.find(p => p.startsWith('TYPE='))?.replace('TYPE=', '') || 'default';
+      case 'VERSION':
+        contact.version = line.value.trim();
+        break;
 
-    switch (field.toUpperCase()) {
       case 'FN':
-        contact.name = { ...contact.name, formatted: value };
+        contact.name = { ...contact.name, formatted: text };
         break;
-      
-      case 'N':
-        const [family, given, , prefix, suffix] = value.split(';');
+
+      case 'N': {
+        const [family, given, additional, prefix, suffix] = splitEscaped(line.value, ';').map(unescapeValue);
         contact.name = {
           ...contact.name,
           family: family || undefined,
           given: given || undefined,
+          additional: additional || undefined,
           prefix: prefix || undefined,
           suffix: suffix || undefined
         };
         break;
-      
+      }
+
+      case 'NICKNAME':
+        contact.nicknames = [
+          ...(contact.nicknames ?? []),
+          ...splitEscaped(line.value, ',').map(unescapeValue).map(nickname => nickname.trim()).filter(Boolean)
+        ];
+        break;
+
       case 'EMAIL':
         if (!contact.emails) contact.emails = [];
         contact.emails.push({
-          type: typeParam.toLowerCase(),
-          value: value
+          ...entryFields(line, types, primaryType(types)),
+          value: text.trim()
         });
         break;
-      
+
       case 'TEL':
         if (!contact.phones) contact.phones = [];
-        
-        // Clean up phone types - prioritize mobile types, then work, then remove redundant types
-        let cleanType = 'phone';
-        if (typeParam) {
-          const types = typeParam.toLowerCase();
-          if (types.includes('cell') || types.includes('mobile')) {
-            cleanType = 'mobile';
-          } else if (types.includes('work')) {
-            cleanType = 'work';
-          } else if (types.includes('home')) {
-            cleanType = 'home';
-          } else if (types.includes('fax')) {
-            cleanType = 'fax';
-          } else {
-            // Take the first type if none of the above
-            cleanType = types.split(',')[0].trim();
-          }
-        }
-        
         contact.phones.push({
-          type: cleanType,
-          value: value
+          ...entryFields(line, types, phoneType(types)),
+          // vCard 4.0 may write numbers as tel: URIs
+          value: text.trim().replace(/^tel:/i, '')
         });
         break;
-      
-      case 'ORG':
-        contact.organization = { ...contact.organization, name: value };
+
+      case 'ORG': {
+        const [name, ...units] = splitEscaped(line.value, ';').map(unescapeValue);
+        contact.organization = {
+          ...contact.organization,
+          name: name || undefined,
+          units: units.filter(Boolean).length > 0 ? units.filter(Boolean) : undefined
+        };
         break;
-      
+      }
+
       case 'TITLE':
-        contact.organization = { ...contact.organization, title: value };
+        contact.organization = { ...contact.organization, title: text };
         break;
-      
-      case 'ADR':
-        const [, , street, city, state, zip, country] = value.split(';');
+
+      case 'ADR': {
+        const [poBox, extended, street, city, state, zip, country] = splitEscaped(line.value, ';').map(unescapeValue);
         if (!contact.addresses) contact.addresses = [];
-        
-        // Combine postal code and city on same line
-        const addressParts = [];
-        if (street) addressParts.push(street);
-        
-        // Combine zip and city on one line
-        const cityZipLine = [];
-        if (zip) cityZipLine.push(zip);
-        if (city) cityZipLine.push(city);
-        if (cityZipLine.length > 0) {
-          addressParts.push(cityZipLine.join(' '));
-        }
-        
-        if (state) addressParts.push(state);
-        if (country) addressParts.push(country);
-        
+
         contact.addresses.push({
-          type: typeParam.toLowerCase(),
+          ...entryFields(line, types, primaryType(types)),
+          poBox: poBox || undefined,
+          extended: extended || undefined,
           street: street || undefined,
           city: city || undefined,
           state: state || undefined,
           zip: zip || undefined,
           country: country || undefined,
-          formatted: addressParts.filter(Boolean).join(', ') || undefined
+          formatted: formatAddress(street, city, state, zip, country)
         });
         break;
-      
+      }
+
       case 'URL':
         if (!contact.urls) contact.urls = [];
         contact.urls.push({
-          type: typeParam.toLowerCase(),
-          value: value
+          ...entryFields(line, types, primaryType(types)),
+          value: text.trim()
         });
         break;
-      
+
       case 'NOTE':
-        contact.notes = value;
+        contact.notes = contact.notes ? `${contact.notes}\n${text}` : text;
+        break;
+
+      case 'BDAY':
+        contact.birthday = formatBirthday(text.trim());
+        break;
+
+      case 'PHOTO':
+        contact.photo = parsePhoto(line) ?? contact.photo;
+        break;
+
+      case 'GEO':
+        contact.geo = parseGeo(text) ?? contact.geo;
+        break;
+
+      case 'TZ':
+        contact.timezone = text.trim();
+        break;
+
+      case 'UID':
+        contact.uid = text.trim().replace(/^urn:uuid:/i, '');
+        break;
+
+      case 'REV':
+        contact.revision = text.trim();
+        break;
+
+      case 'X-ABLABEL':
+        // Apple labels a grouped property with a sibling line, e.g. item1.X-ABLabel
+        if (line.group) {
+          labels.push(line);
+          break;
+        }
+        addUnmappedField(contact, line.name.toLowerCase(), text);
         break;
-      
+
       default:
-        contact.unmappedFields[field.toLowerCase()] = value;
+        addUnmappedField(contact, line.name.toLowerCase(), text);
+    }
+  }
+
+  for (const label of labels) {
+    const name = unescapeValue(label.value).replace(/^_\$!<(.*)>!\$_$/, '$1').toLowerCase();
+    const entries = [...(contact.emails ?? []), ...(contact.phones ?? []), ...(contact.urls ?? []), ...(contact.addresses ?? [])];
+    const entry = entries.find(candidate => candidate.group === label.group);
+
+    if (entry) {
+      entry.type = name;
+    } else {
+      addUnmappedField(contact, 'x-ablabel', name);
     }
   }
 
   return contact;
 }
 
-export function parseContent(content: string): ParsedContent {
-  const type = detectContentType(content);
-  
-  switch (type) {
-    case 'empty':
-      return {
-        type,
-        data: null,
-        displayText: 'No content found',
-        actions: []
-      };
-
-    case 'vcard':
-      const contact = parseVCard(content);
-      const displayName = contact.name?.formatted || 
-        (contact.name?.given && contact.name?.family 
-          ? `${contact.name.given} ${contact.name.family}`
-          : 'Contact');
-      
+/** Parses any supported contact payload: vCard, MECARD: or BIZCARD:. */
+export function parseContact(content: string): VCardContact {
+  const trimmed = content.trim();
+  const contact = isMeCard(trimmed) ? parseMeCard(trimmed) : isBizCard(trimmed) ? parseBizCard(trimmed) : parseVCard(trimmed);
+
+  contact.phones?.forEach(phone => {
+    const number = parsePhoneNumber(phone.value);
+    if (number.valid) {
+      phone.e164 = number.e164;
+      phone.region = number.region;
+    }
+  });
+
+  return contact;
+}
+
+function decodeQueryValue(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function getContactName(contact: VCardContact): string {
+  return contact.name?.formatted ||
+    (contact.name?.given && contact.name?.family
+      ? `${contact.name.given} ${contact.name.family}`
+      : contact.organization?.name || 'Contact');
+}
+
+function paymentHandler<T extends 'epc' | 'swiss-qr'>(
+  name: T,
+  label: string,
+  priority: number,
+  detect: (content: string) => boolean,
+  parse: (content: string) => PaymentDetails | null
+): ContentHandler<PaymentDetails> & { name: T } {
+  return {
+    name,
+    label,
+    priority,
+    detect: content => (detect(content) ? 1 : 0),
+    parse,
+    describe: payment => {
+      const amount = formatPaymentAmount(payment);
+      return `Payment to ${payment.beneficiary.name}${amount ? `: ${amount}` : ''}`;
+    },
+    format: details => [
+      details.scheme === 'epc' ? 'SEPA Payment' : 'Swiss QR-bill',
+      `Beneficiary: ${details.beneficiary.formatted}`,
+      `IBAN: ${formatIban(details.iban)}${details.ibanValid ? '' : ' (invalid checksum)'}`,
+      details.bic && `BIC: ${details.bic}`,
+      formatPaymentAmount(details) && `Amount: ${formatPaymentAmount(details)}`,
+      details.reference && `Reference: ${details.reference}`,
+      details.remittanceText && `Message: ${details.remittanceText}`
+    ].filter(Boolean).join('\n'),
+    actions: (payment, content) => [
+      {
+        type: 'copy',
+        label: 'Copy IBAN',
+        value: payment.iban,
+        icon: 'clipboard'
+      },
+      {
+        type: 'copy',
+        label: 'Copy Payment Details',
+        value: content,
+        icon: 'clipboard'
+      }
+    ]
+  };
+}
+
+const textHandler: ContentHandler<TextContent> & { name: 'text' } = {
+  name: 'text',
+  label: 'Text Content',
+  priority: 0,
+  // Anything is text, but every other match is preferred
+  detect: () => 0.01,
+  parse: content => ({ text: content }),
+  describe: ({ text }) => (text.length > 100 ? text.substring(0, 100) + '...' : text),
+  format: ({ text }) => text,
+  actions: ({ text }) => [
+    {
+      type: 'copy',
+      label: 'Copy Text',
+      value: text,
+      icon: 'clipboard'
+    }
+  ]
+};
+
+// Structured formats are certain matches, asked in priority order; guesses from
+// the shape of scheme-less content rank below them by confidence
+const builtInHandlers: { [T in BuiltInType]: ContentHandler<ContentPayloads[T]> & { name: T } } = {
+  vcard: {
+    name: 'vcard',
+    label: 'Contact Information',
+    priority: 100,
+    detect: content =>
+      (content.startsWith('BEGIN:VCARD') && content.includes('END:VCARD')) || isMeCard(content) || isBizCard(content) ? 1 : 0,
+    parse: parseContact,
+    describe: getContactName,
+    format: contact => {
+      const parts = [];
+
+      if (contact.name?.formatted || (contact.name?.given && contact.name?.family)) {
+        const name = contact.name.formatted || `${contact.name.given} ${contact.name.family}`;
+        parts.push(name);
+      }
+
+      if (contact.organization?.title) {
+        parts.push(contact.organization.title);
+      }
+
+      contact.emails?.forEach(email => parts.push(email.value));
+      contact.phones?.forEach(phone => parts.push(phone.value));
+
+      if (contact.organization?.name) {
+        parts.push(contact.organization.name);
+      }
+
+      contact.addresses?.forEach(address => {
+        if (address.formatted) {
+          address.formatted.split(', ').forEach(line => parts.push(line));
+        }
+      });
+
+      contact.urls?.forEach(url => parts.push(url.value));
+
+      return parts.join('\n');
+    },
+    actions: (contact, content) => {
       const actions: ContentAction[] = [];
-      
-      if (contact.phones && contact.phones.length > 0) {
-        // Add call actions for all phone numbers
-        contact.phones.forEach((phone, index) => {
-          const typeLabel = phone.type && phone.type !== 'phone' ? ` (${phone.type})` : '';
-          actions.push({
-            type: 'call',
-            label: `Call ${phone.value}${typeLabel}`,
-            value: phone.value,
-            icon: 'phone'
-          });
+
+      // Add call actions for all phone numbers
+      contact.phones?.forEach(phone => {
+        const typeLabel = phone.type && phone.type !== 'phone' ? ` (${phone.type})` : '';
+        actions.push({
+          type: 'call',
+          label: `Call ${phone.value}${typeLabel}`,
+          value: phone.e164 ?? phone.value,
+          icon: 'phone'
         });
-      }
-      
+      });
+
       if (contact.emails && contact.emails.length > 0) {
         actions.push({
           type: 'email',
@@ -291,279 +595,430 @@ export function parseContent(content: string): ParsedContent {
         });
       }
 
+      // MeCard and BIZCARD contacts are copied as a vCard so they paste into any address book
       actions.push({
         type: 'copy',
         label: 'Copy vCard',
-        value: content,
+        value: contact.format === 'vcard' ? content : buildVCardPayload(contact),
         icon: 'clipboard'
       });
 
-      return {
-        type,
-        data: contact,
-        displayText: displayName,
-        actions
-      };
-
-    case 'url':
-      let processedUrl = content;
-      if (!content.startsWith('http://') && !content.startsWith('https://')) {
-        processedUrl = `https://${content}`;
-      }
-      
-      return {
-        type,
-        data: { url: processedUrl, original: content },
-        displayText: content,
-        actions: [
-          {
-            type: 'open',
-            label: 'Open Website',
-            value: processedUrl,
-            icon: 'external-link'
-          },
-          {
-            type: 'copy',
-            label: 'Copy URL',
-            value: content,
-            icon: 'clipboard'
-          }
-        ]
-      };
-
-    case 'email':
-      const emailAddress = content.startsWith('mailto:') 
-        ? content.substring(7) 
-        : content;
-      
-      return {
-        type,
-        data: { email: emailAddress },
-        displayText: emailAddress,
-        actions: [
-          {
-            type: 'email',
-            label: 'Send Email',
-            value: emailAddress,
-            icon: 'envelope'
-          },
-          {
-            type: 'copy',
-            label: 'Copy Email',
-            value: emailAddress,
-            icon: 'clipboard'
-          }
-        ]
-      };
-
-    case 'phone':
-      const phoneNumber = content.startsWith('tel:') 
-        ? content.substring(4) 
-        : content;
-      
-      return {
-        type,
-        data: { phone: phoneNumber },
-        displayText: phoneNumber,
-        actions: [
-          {
-            type: 'call',
-            label: 'Call Number',
-            value: phoneNumber,
-            icon: 'phone'
-          },
-          {
-            type: 'sms',
-            label: 'Send SMS',
-            value: phoneNumber,
-            icon: 'chat-bubble-left'
-          },
-          {
-            type: 'copy',
-            label: 'Copy Number',
-            value: phoneNumber,
-            icon: 'clipboard'
-          }
-        ]
-      };
-
-    case 'wifi':
-      const wifiMatch = content.match(/WIFI:T:([^;]*);S:([^;]*);P:([^;]*);H:([^;]*);?/);
-      if (wifiMatch) {
-        const [, security, ssid, password, hidden] = wifiMatch;
-        return {
-          type,
-          data: { security, ssid, password, hidden: hidden === 'true' },
-          displayText: `WiFi: ${ssid}`,
-          actions: [
-            {
-              type: 'copy',
-              label: 'Copy WiFi Info',
-              value: content,
-              icon: 'clipboard'
-            }
-          ]
-        };
-      }
-      break;
-
-    case 'location':
-      const geoMatch = content.match(/geo:(-?\d+\.?\d*),(-?\d+\.?\d*)/);
-      if (geoMatch) {
-        const [, lat, lng] = geoMatch;
-        return {
-          type,
-          data: { latitude: parseFloat(lat), longitude: parseFloat(lng) },
-          displayText: `Location: ${lat}, ${lng}`,
-          actions: [
-            {
-              type: 'navigate',
-              label: 'Open in Maps',
-              value: `https://maps.google.com/maps?q=${lat},${lng}`,
-              icon: 'map-pin'
-            },
-            {
-              type: 'copy',
-              label: 'Copy Coordinates',
-              value: `${lat}, ${lng}`,
-              icon: 'clipboard'
-            }
-          ]
-        };
-      }
-      break;
-
-    case 'sms':
-      const smsMatch = content.match(/(?:SMSTO:|sms:)([^:?]*)[?:]?(.*)/);
-      if (smsMatch) {
-        const [, number, message] = smsMatch;
-        return {
-          type,
-          data: { number: number.trim(), message: message || '' },
-          displayText: `SMS to ${number}${message ? ': ' + message : ''}`,
-          actions: [
-            {
-              type: 'sms',
-              label: 'Send SMS',
-              value: `sms:${number}${message ? `?body=${encodeURIComponent(message)}` : ''}`,
-              icon: 'chat-bubble-left'
-            },
-            {
-              type: 'copy',
-              label: 'Copy Content',
-              value: content,
-              icon: 'clipboard'
-            }
-          ]
-        };
-      }
-      break;
-
-    case 'text':
-    default:
-      return {
-        type: 'text',
-        data: { text: content },
-        displayText: content.length > 100 ? content.substring(0, 100) + '...' : content,
-        actions: [
-          {
-            type: 'copy',
-            label: 'Copy Text',
-            value: content,
-            icon: 'clipboard'
-          }
-        ]
-      };
-  }
+      return actions;
+    }
+  },
 
-  return {
-    type: 'text',
-    data: { text: content },
-    displayText: content,
-    actions: [
+  // Payment slips: SEPA GiroCode and Swiss QR-bill
+  epc: paymentHandler('epc', 'SEPA Payment', 95, isEpcPayment, parseEpcPayment),
+  'swiss-qr': paymentHandler('swiss-qr', 'Swiss QR-bill', 90, isSwissQrBill, parseSwissQrBill),
+
+  // Crypto payment requests (bitcoin:, ethereum:, lightning:)
+  crypto: {
+    name: 'crypto',
+    label: 'Crypto Payment',
+    priority: 85,
+    detect: content => (isCryptoPayment(content) ? 1 : 0),
+    parse: parseCryptoPayment,
+    describe: payment => {
+      const amount = formatCryptoAmount(payment);
+      return `${amount ? `Send ${amount}` : `${payment.network} payment`} to ${payment.address}`;
+    },
+    format: crypto => [
+      `${crypto.network} Payment`,
+      `To: ${crypto.address}${crypto.addressValid ? '' : ' (invalid address)'}`,
+      `Amount: ${formatCryptoAmount(crypto) ?? 'not specified'}`,
+      crypto.tokenContract && `Token Contract: ${crypto.tokenContract}`,
+      crypto.label && `Label: ${crypto.label}`,
+      crypto.message && `Message: ${crypto.message}`,
+      crypto.description && `Description: ${crypto.description}`
+    ].filter(Boolean).join('\n'),
+    actions: (payment, content) => [
       {
         type: 'copy',
-        label: 'Copy Text',
+        label: payment.invoice ? 'Copy Invoice' : 'Copy Address',
+        value: payment.invoice ?? payment.address,
+        icon: 'clipboard'
+      },
+      {
+        type: 'copy',
+        label: 'Copy Payment Request',
         value: content,
         icon: 'clipboard'
       }
     ]
-  };
-}
+  },
 
-export function formatContentForDisplay(parsed: ParsedContent): string {
-  switch (parsed.type) {
-    case 'vcard':
-      const contact = parsed.data as VCardContact;
-      const parts = [];
-      
-      if (contact.name?.formatted || (contact.name?.given && contact.name?.family)) {
-        const name = contact.name.formatted || `${contact.name.given} ${contact.name.family}`;
-        parts.push(name);
-      }
-      
-      if (contact.organization?.title) {
-        parts.push(contact.organization.title);
-      }
-      
-      if (contact.emails && contact.emails.length > 0) {
-        contact.emails.forEach(email => {
-          parts.push(email.value);
-        });
+  event: {
+    name: 'event',
+    label: 'Calendar Event',
+    priority: 80,
+    detect: content => (isCalendarEvent(content) ? 1 : 0),
+    parse: parseCalendarEvent,
+    describe: event => [event.summary || 'Calendar Event', formatEventTime(event)].filter(Boolean).join(' • '),
+    format: event => [
+      event.summary || 'Calendar Event',
+      formatEventTime(event),
+      event.rrule && describeRecurrence(event.rrule),
+      event.location,
+      event.description
+    ].filter(Boolean).join('\n'),
+    actions: (event, content) => [
+      {
+        type: 'copy',
+        label: 'Copy Event',
+        value: content,
+        icon: 'clipboard'
       }
-      
-      if (contact.phones && contact.phones.length > 0) {
-        contact.phones.forEach(phone => {
-          parts.push(phone.value);
-        });
+    ]
+  },
+
+  wifi: {
+    name: 'wifi',
+    label: 'WiFi Network',
+    priority: 75,
+    detect: content => (isWifiPayload(content) ? 1 : schemeConfidence(content, 'wifi')),
+    parse: parseWifi,
+    describe: network => `WiFi: ${network.ssid}`,
+    format: wifi => {
+      const eapLines = [
+        wifi.eap?.method && `EAP Method: ${wifi.eap.method}`,
+        wifi.eap?.identity && `Identity: ${wifi.eap.identity}`,
+        wifi.eap?.anonymousIdentity && `Anonymous Identity: ${wifi.eap.anonymousIdentity}`,
+        wifi.eap?.phase2 && `Phase 2: ${wifi.eap.phase2}`
+      ].filter(Boolean).map(line => `\n${line}`).join('');
+      return `WiFi Network\nSSID: ${wifi.ssid}\nSecurity: ${describeWifiSecurity(wifi.security)}${eapLines}\n${wifi.hidden ? 'Hidden Network' : 'Visible Network'}`;
+    },
+    actions: (network, content) => [
+      ...(network.password ? [{
+        type: 'copy' as const,
+        label: 'Copy Password',
+        value: network.password,
+        icon: 'key'
+      }] : []),
+      {
+        type: 'copy',
+        label: 'Copy WiFi Info',
+        value: content,
+        icon: 'clipboard'
       }
-      
-      if (contact.organization?.name) {
-        parts.push(contact.organization.name);
+    ]
+  },
+
+  // Map links outrank plain websites so they open in the chosen map provider
+  location: {
+    name: 'location',
+    label: 'Location',
+    priority: 72,
+    detect: content => schemeConfidence(content, 'geo') || (parseMapUrl(content) ? 1 : 0),
+    parse: content => (getUriScheme(content) === 'geo' ? parseGeoUri(content) : parseMapUrl(content)),
+    describe: location => `Location: ${location.label ?? (hasCoordinates(location) ? formatCoordinates(location.latitude, location.longitude) : location.query)}`,
+    format: location => [
+      'GPS Location',
+      location.label && `Place: ${location.label}`,
+      hasCoordinates(location)
+        ? `Latitude: ${location.latitude}\nLongitude: ${location.longitude}\n${formatCoordinates(location.latitude, location.longitude, 'dms')}`
+        : `Search: ${location.query}`,
+      location.altitude !== undefined && `Altitude: ${location.altitude} m`,
+      location.uncertainty !== undefined && `Accuracy: ±${location.uncertainty} m`,
+      location.crs && `Reference System: ${location.crs}`
+    ].filter(Boolean).join('\n'),
+    actions: (location, content) => [
+      {
+        type: 'navigate',
+        label: 'Open in Maps',
+        value: buildGeoUri(location),
+        icon: 'map-pin'
+      },
+      hasCoordinates(location) ? {
+        type: 'copy',
+        label: 'Copy Coordinates',
+        value: formatCoordinates(location.latitude, location.longitude),
+        icon: 'clipboard'
+      } : {
+        type: 'copy',
+        label: 'Copy Address',
+        value: location.query!,
+        icon: 'clipboard'
+      },
+      ...(location.source !== 'geo' ? [{
+        type: 'copy' as const,
+        label: 'Copy Link',
+        value: content.trim(),
+        icon: 'clipboard'
+      }] : [])
+    ]
+  },
+
+  // Web schemes must be real web addresses; scheme-less ones such as "www.example.com/path" are a guess
+  url: {
+    name: 'url',
+    label: 'Website',
+    priority: 70,
+    detect: content => (isWebUrl(content) ? (getUriScheme(content) ? 1 : 0.7) : 0),
+    parse: content => {
+      const url = getUriScheme(content) ? content : `https://${content}`;
+      return { url, original: content, safety: inspectUrl(content, url) };
+    },
+    describe: ({ original }) => original,
+    format: ({ original }) => original,
+    actions: ({ url, original, safety }) => [
+      ...(safety.reasons.some(reason => reason.code === 'dangerous-scheme') ? [] : [{
+        type: 'open' as const,
+        label: 'Open Website',
+        value: url,
+        icon: 'external-link'
+      }]),
+      {
+        type: 'copy',
+        label: 'Copy URL',
+        value: original,
+        icon: 'clipboard'
       }
-      
-      if (contact.addresses && contact.addresses.length > 0) {
-        contact.addresses.forEach(address => {
-          if (address.formatted) {
-            const addressLines = address.formatted.split(', ');
-            addressLines.forEach(line => parts.push(line));
-          }
-        });
+    ]
+  },
+
+  phone: {
+    name: 'phone',
+    label: 'Phone Number',
+    priority: 65,
+    detect: content => schemeConfidence(content, 'tel') || (!getUriScheme(content) && isPhoneNumber(content) ? 0.9 : 0),
+    parse: content => {
+      const number = parsePhoneNumber(content);
+      return { phone: number.raw, number };
+    },
+    describe: ({ phone, number }) => number.international ?? phone,
+    format: ({ phone, number }) => {
+      if (!number.valid) return phone;
+      return number.regionName ? `${number.international} (${number.regionName})` : number.international!;
+    },
+    actions: ({ phone, number }) => {
+      const dialable = getDialableNumber(number);
+      const { e164 } = number;
+
+      return [
+        {
+          type: 'call',
+          label: 'Call Number',
+          value: dialable,
+          icon: 'phone'
+        },
+        {
+          type: 'sms',
+          label: 'Send SMS',
+          value: e164 ?? dialable,
+          icon: 'chat-bubble-left'
+        },
+        {
+          type: 'copy',
+          label: 'Copy Number',
+          value: e164 ?? phone,
+          icon: 'clipboard'
+        }
+      ];
+    }
+  },
+
+  sms: {
+    name: 'sms',
+    label: 'SMS Message',
+    priority: 60,
+    detect: content => schemeConfidence(content, 'sms', 'smsto'),
+    parse: content => {
+      const match = content.match(/^(?:SMSTO|sms):([^:?&]*)[?&:]?([\s\S]*)$/i);
+      if (!match) return null;
+
+      const [, number, rest] = match;
+      // "sms:+123?body=Hi" (RFC 5724, or "&body=" from iOS) versus "SMSTO:+123:Hi"
+      const isQuery = /^[a-z-]+=/i.test(rest);
+      const body = isQuery ? rest.match(/(?:^|&)body=([^&]*)/i)?.[1] : rest;
+
+      return { number: number.trim(), message: isQuery ? decodeQueryValue(body ?? '') : rest, phone: parsePhoneNumber(number) };
+    },
+    describe: sms => `SMS to ${sms.phone?.valid ? sms.phone.international : sms.number}${sms.message ? ': ' + sms.message : ''}`,
+    format: sms => `SMS Message\nTo: ${sms.phone?.valid ? sms.phone.international : sms.number}${sms.message ? `\nMessage: ${sms.message}` : ''}`,
+    actions: (sms, content) => [
+      {
+        type: 'sms',
+        label: 'Send SMS',
+        value: sms.phone?.valid ? sms.phone.e164! : sms.number,
+        body: sms.message || undefined,
+        icon: 'chat-bubble-left'
+      },
+      {
+        type: 'copy',
+        label: 'Copy Content',
+        value: content,
+        icon: 'clipboard'
       }
-      
-      if (contact.urls && contact.urls.length > 0) {
-        contact.urls.forEach(url => {
-          parts.push(url.value);
-        });
+    ]
+  },
+
+  email: {
+    name: 'email',
+    label: 'Email',
+    priority: 55,
+    detect: content =>
+      schemeConfidence(content, 'mailto') || (isMatMsg(content) ? 1 : 0) || (!getUriScheme(content) && isEmailAddress(content) ? 0.8 : 0),
+    parse: parseEmail,
+    describe: draft => {
+      const recipients = [...draft.to, ...draft.cc, ...draft.bcc].join(', ');
+      if (draft.format === 'address') return recipients;
+      return `${recipients ? `Email to ${recipients}` : 'Email draft'}${draft.subject ? `: ${draft.subject}` : ''}`;
+    },
+    format: draft => draft.format === 'address' ? draft.to[0] : [
+      draft.to.length > 0 && `To: ${draft.to.join(', ')}`,
+      draft.cc.length > 0 && `Cc: ${draft.cc.join(', ')}`,
+      draft.bcc.length > 0 && `Bcc: ${draft.bcc.join(', ')}`,
+      draft.subject && `Subject: ${draft.subject}`,
+      draft.body && `\n${draft.body}`
+    ].filter(Boolean).join('\n'),
+    actions: draft => {
+      const recipients = [...draft.to, ...draft.cc, ...draft.bcc];
+
+      return [
+        {
+          type: 'email',
+          label: draft.subject || draft.body || recipients.length === 0 ? 'Send Email' : `Email ${recipients[0]}`,
+          value: draft.to.join(','),
+          cc: draft.cc.join(',') || undefined,
+          bcc: draft.bcc.join(',') || undefined,
+          subject: draft.subject,
+          body: draft.body,
+          icon: 'envelope'
+        },
+        ...(recipients.length > 0 ? [{
+          type: 'copy' as const,
+          label: recipients.length > 1 ? 'Copy Addresses' : 'Copy Email',
+          value: recipients.join(', '),
+          icon: 'clipboard'
+        }] : []),
+        ...(draft.body ? [{
+          type: 'copy' as const,
+          label: 'Copy Message',
+          value: draft.body,
+          icon: 'clipboard'
+        }] : [])
+      ];
+    }
+  },
+
+  otp: {
+    name: 'otp',
+    label: 'Two-Factor Authentication',
+    priority: 45,
+    detect: content => schemeConfidence(content, 'otpauth'),
+    parse: parseOtpAuthUri,
+    describe: account => `Two-factor code for ${describeOtpAccount(account)}`,
+    // The secret stays out of display text
+    format: otp => [
+      `Two-Factor Account: ${describeOtpAccount(otp)}`,
+      `Type: ${otp.type.toUpperCase()}`,
+      `Algorithm: ${otp.algorithm}, ${otp.digits} digits${otp.type === 'totp' ? `, every ${otp.period}s` : ''}`
+    ].join('\n'),
+    actions: account => [
+      {
+        type: 'copy',
+        label: 'Copy Secret',
+        value: account.secret,
+        icon: 'key'
       }
-      
-      return parts.join('\n');
+    ]
+  },
+
+  text: textHandler
+};
+
+const builtInTypes = new Set<string>(Object.keys(builtInHandlers));
 
-    case 'wifi':
-      const wifi = parsed.data;
-      return `WiFi Network\nSSID: ${wifi.ssid}\nSecurity: ${wifi.security}\n${wifi.hidden ? 'Hidden Network' : 'Visible Network'}`;
+Object.values(builtInHandlers).forEach(handler => registerContentHandler<unknown>(handler));
 
-    case 'location':
-      const location = parsed.data;
-      return `GPS Location\nLatitude: ${location.latitude}\nLongitude: ${location.longitude}`;
+function isBuiltInType(name: string): name is BuiltInType {
+  return builtInTypes.has(name);
+}
+
+/**
+ * Parses content with the most confident registered handler. Handlers that
+ * fail to parse, or throw, are skipped; content nothing can parse is plain text.
+ */
+export function parseContent(content: string): ParsedContent {
+  if (!content || content.trim() === '') {
+    return {
+      type: 'empty',
+      data: null,
+      displayText: 'No content found',
+      actions: []
+    };
+  }
 
-    case 'sms':
-      const sms = parsed.data;
-      return `SMS Message\nTo: ${sms.number}${sms.message ? `\nMessage: ${sms.message}` : ''}`;
+  for (const { handler } of matchContentHandlers(content.trim())) {
+    let data: unknown;
+    let displayText: string;
+    let actions: ContentAction[];
 
-    case 'url':
-      return parsed.data.original;
+    try {
+      data = handler.parse(content);
+      if (data === null) continue;
 
-    case 'email':
-      return parsed.data.email;
+      displayText = handler.describe(data, content);
+      actions = handler.actions?.(data, content) ?? [];
+    } catch (error) {
+      console.error(`Content handler "${handler.name}" failed to parse content:`, error);
+      continue;
+    }
 
-    case 'phone':
-      return parsed.data.phone;
+    if (isBuiltInType(handler.name)) {
+      // Registry handlers are untyped, so the payload is checked rather than cast;
+      // a handler registered with { replace: true } must keep the built-in shape
+      const parsed = { type: handler.name, data, displayText, actions };
+      if (isParsedContent(parsed)) return parsed;
 
-    case 'text':
-      return parsed.data.text;
+      console.error(`Content handler "${handler.name}" returned a payload of the wrong shape`);
+      continue;
+    }
 
-    default:
-      return parsed.displayText;
+    return {
+      type: 'custom',
+      data: { handler: handler.name, value: data },
+      displayText,
+      actions
+    };
   }
-}
\ No newline at end of file
+
+  const text = { text: content };
+  return {
+    type: 'text',
+    data: text,
+    displayText: textHandler.describe(text, content),
+    actions: textHandler.actions!(text, content)
+  };
+}
+
+/** Reads a phone number without a country code in another region, rebuilding its display text and actions. */
+export function withPhoneRegion(parsed: Extract<ParsedContent, { type: 'phone' }>, region: string): ParsedContent {
+  const handler = builtInHandlers.phone;
+  const data: PhoneContent = { phone: parsed.data.phone, number: parsePhoneNumber(parsed.data.phone, region) };
+
+  return {
+    type: 'phone',
+    data,
+    displayText: handler.describe(data, parsed.data.phone),
+    actions: handler.actions!(data, parsed.data.phone)
+  };
+}
+
+/** Returns the handler that produced the content together with its payload, or null for empty content. */
+export function getContentHandlerFor(parsed: ParsedContent): { handler: ContentHandler; data: unknown } | null {
+  if (parsed.type === 'empty') return null;
+
+  const [name, data] = parsed.type === 'custom' ? [parsed.data.handler, parsed.data.value] : [parsed.type, parsed.data];
+  const handler = getContentHandler(name);
+  return handler ? { handler, data } : null;
+}
+
+export function getContentLabel(parsed: ParsedContent): string {
+  return getContentHandlerFor(parsed)?.handler.label ?? 'Content';
+}
+
+export function formatContentForDisplay(parsed: ParsedContent): string {
+  const match = getContentHandlerFor(parsed);
+  return match?.handler.format?.(match.data) ?? parsed.displayText;
+}
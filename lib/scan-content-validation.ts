@@ -0,0 +1,84 @@
+import type { ContentPayloads, ContentType, ParsedContent } from './scan-content-utils';
+import type { PaymentDetails } from './scan-payment';
+
+// Runtime checks for content whose static types cannot be trusted: entries read
+// back from storage, and payloads from handlers that replace a built-in one.
+
+type PayloadValidator<T> = (data: unknown) => data is T;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasStrings(value: Record<string, unknown>, keys: string[]): boolean {
+  return keys.every(key => typeof value[key] === 'string');
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && !isNaN(value);
+}
+
+function isEntryList(value: unknown): boolean {
+  return value === undefined || (Array.isArray(value) && value.every(entry => isRecord(entry) && hasStrings(entry, ['type', 'value'])));
+}
+
+function isPayment(data: unknown): data is PaymentDetails {
+  return isRecord(data) &&
+    (data.scheme === 'epc' || data.scheme === 'swiss-qr') &&
+    isRecord(data.beneficiary) && typeof data.beneficiary.formatted === 'string' &&
+    hasStrings(data, ['iban', 'currency']) &&
+    typeof data.ibanValid === 'boolean';
+}
+
+export const payloadValidators: { [T in ContentType]: PayloadValidator<ContentPayloads[T]> } = {
+  vcard: (data): data is ContentPayloads['vcard'] =>
+    isRecord(data) && isRecord(data.unmappedFields) &&
+    (data.name === undefined || isRecord(data.name)) &&
+    isEntryList(data.emails) && isEntryList(data.phones) && isEntryList(data.urls),
+
+  url: (data): data is ContentPayloads['url'] =>
+    isRecord(data) && hasStrings(data, ['url', 'original']) &&
+    isRecord(data.safety) && Array.isArray(data.safety.reasons),
+
+  email: (data): data is ContentPayloads['email'] =>
+    isRecord(data) && Array.isArray(data.to) && Array.isArray(data.cc) && Array.isArray(data.bcc) && typeof data.format === 'string',
+
+  phone: (data): data is ContentPayloads['phone'] =>
+    isRecord(data) && hasStrings(data, ['phone']) &&
+    isRecord(data.number) && hasStrings(data.number, ['raw']) && typeof data.number.valid === 'boolean',
+
+  wifi: (data): data is ContentPayloads['wifi'] =>
+    isRecord(data) && hasStrings(data, ['ssid', 'security']) && typeof data.hidden === 'boolean',
+
+  location: (data): data is ContentPayloads['location'] =>
+    isRecord(data) && isNumber(data.latitude) && isNumber(data.longitude),
+
+  sms: (data): data is ContentPayloads['sms'] => isRecord(data) && hasStrings(data, ['number', 'message']),
+
+  event: (data): data is ContentPayloads['event'] =>
+    isRecord(data) && (data.start === undefined || (isRecord(data.start) && typeof data.start.value === 'string')),
+
+  epc: isPayment,
+  'swiss-qr': isPayment,
+
+  crypto: (data): data is ContentPayloads['crypto'] =>
+    isRecord(data) && hasStrings(data, ['scheme', 'network', 'address']) && typeof data.addressValid === 'boolean',
+
+  otp: (data): data is ContentPayloads['otp'] =>
+    isRecord(data) && hasStrings(data, ['type', 'account', 'secret', 'algorithm']) &&
+    isNumber(data.digits) && isNumber(data.period) && Array.isArray(data.warnings),
+
+  custom: (data): data is ContentPayloads['custom'] => isRecord(data) && hasStrings(data, ['handler']) && 'value' in data,
+
+  text: (data): data is ContentPayloads['text'] => isRecord(data) && hasStrings(data, ['text']),
+
+  empty: (data): data is null => data === null
+};
+
+/** Checks that a value is ParsedContent whose payload matches its type. */
+export function isParsedContent(value: unknown): value is ParsedContent {
+  if (!isRecord(value) || typeof value.type !== 'string' || !(value.type in payloadValidators)) return false;
+  if (typeof value.displayText !== 'string' || !Array.isArray(value.actions)) return false;
+
+  return payloadValidators[value.type as ContentType](value.data);
+}
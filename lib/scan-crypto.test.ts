@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { formatCryptoAmount, parseCryptoPayment } from './scan-crypto';
+
+const BITCOIN_ADDRESS = '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa';
+
+describe('bitcoin: amounts', () => {
+  it.each([
+    ['50', '50 BTC'],
+    ['10', '10 BTC'],
+    ['20', '20 BTC'],
+    ['100', '100 BTC'],
+    ['0', '0 BTC'],
+    ['1.50', '1.5 BTC'],
+    ['0.00010000', '0.0001 BTC'],
+    ['20.3', '20.3 BTC'],
+    ['1.', undefined],
+    ['2.000', '2 BTC'],
+    ['0.00000001', '0.00000001 BTC']
+  ])('shows amount=%s as %s', (amount, shown) => {
+    const payment = parseCryptoPayment(`bitcoin:${BITCOIN_ADDRESS}?amount=${amount}&label=Luke-Jr`);
+    expect(formatCryptoAmount(payment) ?? undefined).toBe(shown);
+  });
+
+  it.each(['abc', '1e3', '-1', '0.123456789'])('ignores the malformed amount %s', amount => {
+    expect(parseCryptoPayment(`bitcoin:${BITCOIN_ADDRESS}?amount=${amount}`).amount).toBeUndefined();
+  });
+
+  it('has no amount when none is requested', () => {
+    expect(formatCryptoAmount(parseCryptoPayment(`bitcoin:${BITCOIN_ADDRESS}`))).toBeNull();
+  });
+});
+
+describe('ethereum: amounts', () => {
+  it.each([
+    ['2.014e18', '2.014 ETH'],
+    ['1000000000000000000', '1 ETH'],
+    ['10000000000000000000', '10 ETH'],
+    ['1', '0.000000000000000001 ETH']
+  ])('shows value=%s as %s', (value, shown) => {
+    const payment = parseCryptoPayment(`ethereum:0xfb6916095ca1df60bb79Ce92ce3ea74c37c5d359?value=${value}`);
+    expect(formatCryptoAmount(payment)).toBe(shown);
+  });
+
+  it('shows ERC-20 transfers in token base units', () => {
+    const payment = parseCryptoPayment(
+      'ethereum:0x89205a3a3b2a69de6dbf7f01ed13b2108b2c43e7/transfer?address=0x8e23ee67d1332ad560396262c48ffbb01f93d052&uint256=1'
+    );
+    expect(formatCryptoAmount(payment)).toBe('1 token base units');
+  });
+});
+
+describe('lightning: amounts', () => {
+  it('reads the amount from a BOLT11 invoice', () => {
+    const payment = parseCryptoPayment(
+      'lightning:lnbc2500u1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpuaztrnwngzn3kdzw5hydlzf03qdgm2hdq27cqv3agm2awhz5se903vruatfhq77w3ls4evs3ch9zw97j25emudupq63nyw24cg27h2rspfj9srp'
+    );
+    expect(payment.addressType).toBe('Lightning invoice');
+    expect(formatCryptoAmount(payment)).toBe('0.0025 BTC');
+  });
+});
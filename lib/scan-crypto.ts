@@ -0,0 +1,414 @@
+import { keccak256, sha256 } from './scan-hash';
+
+export interface CryptoPayment {
+  scheme: 'bitcoin' | 'ethereum' | 'lightning';
+  // Human-readable network, e.g. "Bitcoin Testnet" or "Polygon"
+  network: string;
+  // Where the funds go; for ERC-20 transfers this is the recipient, not the token contract
+  address: string;
+  addressType: string;
+  addressValid: boolean;
+  addressNote?: string;
+  // Decimal string in `unit`, kept as text to avoid floating point rounding
+  amount?: string;
+  unit?: string;
+  label?: string;
+  message?: string;
+  chainId?: number;
+  functionName?: string;
+  tokenContract?: string;
+  // Lightning invoices only
+  description?: string;
+  expiresAt?: number;
+  invoice?: string;
+  params: Record<string, string>;
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+const BECH32M_CONSTANT = 0x2bc830a3;
+
+const BITCOIN_NETWORKS: Record<string, string> = {
+  bc: 'Bitcoin',
+  tb: 'Bitcoin Testnet',
+  bcrt: 'Bitcoin Regtest',
+  tbs: 'Bitcoin Signet'
+};
+
+const BASE58_VERSIONS: Record<number, [string, string]> = {
+  0x00: ['P2PKH', 'Bitcoin'],
+  0x05: ['P2SH', 'Bitcoin'],
+  0x6f: ['P2PKH', 'Bitcoin Testnet'],
+  0xc4: ['P2SH', 'Bitcoin Testnet']
+};
+
+const EVM_CHAINS: Record<number, string> = {
+  1: 'Ethereum Mainnet',
+  10: 'OP Mainnet',
+  56: 'BNB Smart Chain',
+  100: 'Gnosis',
+  137: 'Polygon',
+  8453: 'Base',
+  42161: 'Arbitrum One',
+  11155111: 'Sepolia Testnet'
+};
+
+// Millisatoshis per unit of a BOLT11 amount multiplier
+const BOLT11_MULTIPLIERS: Record<string, number> = { m: 1e8, u: 1e5, n: 100 };
+
+export function isCryptoPayment(content: string): boolean {
+  return /^(bitcoin|ethereum|lightning):/i.test(content) ||
+    /^ln(bc|tb|bcrt|tbs)[0-9]*[munp]?1[02-9ac-hj-np-z]+$/i.test(content) ||
+    /^lnurl1[02-9ac-hj-np-z]+$/i.test(content);
+}
+
+function base58Decode(value: string): Uint8Array | null {
+  const bytes: number[] = [];
+
+  for (const char of value) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry === -1) return null;
+
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  for (const char of value) {
+    if (char !== '1') break;
+    bytes.push(0);
+  }
+
+  return new Uint8Array(bytes.reverse());
+}
+
+function base58CheckDecode(value: string): Uint8Array | null {
+  const decoded = base58Decode(value);
+  if (!decoded || decoded.length < 5) return null;
+
+  const payload = decoded.subarray(0, -4);
+  const checksum = sha256(sha256(payload));
+  return decoded.subarray(-4).every((byte, i) => byte === checksum[i]) ? payload : null;
+}
+
+function bech32Polymod(values: number[]): number {
+  let checksum = 1;
+
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    BECH32_GENERATOR.forEach((generator, i) => {
+      if ((top >>> i) & 1) checksum ^= generator;
+    });
+  }
+
+  return checksum >>> 0;
+}
+
+function hrpExpand(hrp: string): number[] {
+  const chars = Array.from(hrp, char => char.charCodeAt(0));
+  return [...chars.map(code => code >> 5), 0, ...chars.map(code => code & 31)];
+}
+
+interface Bech32Result {
+  hrp: string;
+  // 5-bit words without the checksum
+  words: number[];
+  encoding: 'bech32' | 'bech32m';
+}
+
+/** Decodes bech32/bech32m; Lightning invoices exceed BIP 173's 90 characters, so length is not capped. */
+export function bech32Decode(value: string): Bech32Result | null {
+  if (value !== value.toLowerCase() && value !== value.toUpperCase()) return null;
+
+  const lower = value.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length) return null;
+
+  const hrp = lower.substring(0, separator);
+  const words: number[] = [];
+  for (const char of lower.substring(separator + 1)) {
+    const word = BECH32_CHARSET.indexOf(char);
+    if (word === -1) return null;
+    words.push(word);
+  }
+
+  const checksum = bech32Polymod([...hrpExpand(hrp), ...words]);
+  const encoding = checksum === 1 ? 'bech32' : checksum === BECH32M_CONSTANT ? 'bech32m' : null;
+  if (!encoding) return null;
+
+  return { hrp, words: words.slice(0, -6), encoding };
+}
+
+// Regroups 5-bit words into bytes, dropping incomplete trailing bits
+function wordsToBytes(words: number[]): Uint8Array {
+  const bytes: number[] = [];
+  let accumulator = 0;
+  let bits = 0;
+
+  for (const word of words) {
+    accumulator = (accumulator << 5) | word;
+    bits += 5;
+    while (bits >= 8) {
+      bits -= 8;
+      bytes.push((accumulator >> bits) & 0xff);
+    }
+    accumulator &= (1 << bits) - 1;
+  }
+
+  return new Uint8Array(bytes);
+}
+
+function wordsToNumber(words: number[]): number {
+  return words.reduce((total, word) => total * 32 + word, 0);
+}
+
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+function parseQuery(query: string): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  for (const pair of query.split('&')) {
+    if (!pair) continue;
+    const [key, ...rest] = pair.split('=');
+    params[decodeParam(key)] = decodeParam(rest.join('='));
+  }
+
+  return params;
+}
+
+/** Formats an integer amount of base units as a decimal, e.g. 1500000000000000000 wei → "1.5". */
+export function formatUnits(value: bigint, decimals: number): string {
+  const negative = value < BigInt(0);
+  const digits = (negative ? -value : value).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+// EIP-681 numbers may use scientific notation, e.g. value=2.014e18
+function parseIntegerAmount(value: string): bigint | null {
+  const match = value.trim().match(/^(\d+)(?:\.(\d+))?(?:[eE](\d+))?$/);
+  if (!match) return null;
+
+  const [, whole, fraction = '', exponent = '0'] = match;
+  const shift = Number(exponent) - fraction.length;
+  if (shift < 0) {
+    // Only an integer once the fraction is shifted away
+    if (!/^0*$/.test(fraction.slice(fraction.length + shift))) return null;
+    return BigInt(whole + fraction.slice(0, fraction.length + shift));
+  }
+  return BigInt(whole + fraction + '0'.repeat(shift));
+}
+
+export function validateBitcoinAddress(address: string): { valid: boolean; type: string; network?: string } {
+  const segwit = bech32Decode(address);
+  if (segwit && BITCOIN_NETWORKS[segwit.hrp] && segwit.words.length > 0) {
+    const version = segwit.words[0];
+    const program = wordsToBytes(segwit.words.slice(1));
+    const encodingMatches = version === 0 ? segwit.encoding === 'bech32' : segwit.encoding === 'bech32m';
+    const lengthValid = version === 0 ? program.length === 20 || program.length === 32 : program.length >= 2 && program.length <= 40;
+
+    return {
+      valid: version <= 16 && encodingMatches && lengthValid,
+      type: version === 0 ? 'SegWit' : version === 1 ? 'Taproot' : `SegWit v${version}`,
+      network: BITCOIN_NETWORKS[segwit.hrp]
+    };
+  }
+
+  const payload = base58CheckDecode(address);
+  const version = payload && payload.length === 21 ? BASE58_VERSIONS[payload[0]] : undefined;
+  if (version) {
+    return { valid: true, type: version[0], network: version[1] };
+  }
+
+  return { valid: false, type: 'Unknown' };
+}
+
+/** Checks an EIP-55 mixed-case checksum; all-lowercase or all-uppercase addresses carry none. */
+export function validateEthereumAddress(address: string): { valid: boolean; checksummed: boolean } {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) return { valid: false, checksummed: false };
+
+  const hex = address.substring(2);
+  if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) return { valid: true, checksummed: false };
+
+  const hash = keccak256(new TextEncoder().encode(hex.toLowerCase()));
+  const valid = Array.from(hex).every((char, i) => {
+    const nibble = (hash[i >> 1] >> (i % 2 === 0 ? 4 : 0)) & 0xf;
+    return /\d/.test(char) || (nibble >= 8 ? char === char.toUpperCase() : char === char.toLowerCase());
+  });
+
+  return { valid, checksummed: true };
+}
+
+function parseBitcoinUri(content: string): CryptoPayment {
+  const [path, query = ''] = content.substring(content.indexOf(':') + 1).split('?');
+  const params = parseQuery(query);
+  const address = path.replace(/^\/\//, '');
+  const validation = validateBitcoinAddress(address);
+  // Trailing zeros only go after the decimal point: "1.50" → "1.5", "50" stays "50"
+  const amount = params.amount?.match(/^\d+(\.\d{1,8})?$/)
+    ? params.amount.replace(/(\.\d*?)0+$/, '$1').replace(/\.$/, '')
+    : undefined;
+
+  return {
+    scheme: 'bitcoin',
+    network: validation.network ?? 'Bitcoin',
+    address,
+    addressType: validation.type,
+    addressValid: validation.valid,
+    addressNote: Object.keys(params).some(key => key.startsWith('req-'))
+      ? 'Contains required parameters your wallet must understand'
+      : undefined,
+    amount,
+    unit: 'BTC',
+    label: params.label || undefined,
+    message: params.message || undefined,
+    invoice: params.lightning || undefined,
+    params
+  };
+}
+
+function parseEthereumUri(content: string): CryptoPayment {
+  const match = content.match(/^ethereum:(?:pay-)?([^@/?]+)(?:@(\d+))?(?:\/([^?]+))?(?:\?(.*))?$/i);
+  const target = match?.[1] ?? '';
+  const chainId = match?.[2] ? Number(match[2]) : 1;
+  const functionName = match?.[3];
+  const params = parseQuery(match?.[4] ?? '');
+  const network = EVM_CHAINS[chainId] ?? `Chain ${chainId}`;
+
+  // ERC-20 transfer: the target is the token contract and the recipient is a parameter
+  const isTokenTransfer = functionName === 'transfer' && !!params.address;
+  const address = isTokenTransfer ? params.address : target;
+  const isEnsName = !address.startsWith('0x') && /\.[a-z]+$/i.test(address);
+  const validation = validateEthereumAddress(address);
+
+  let amount: string | undefined;
+  let unit = 'ETH';
+  if (isTokenTransfer && params.uint256) {
+    const units = parseIntegerAmount(params.uint256);
+    amount = units === null ? undefined : units.toString();
+    unit = 'token base units';
+  } else if (params.value) {
+    const wei = parseIntegerAmount(params.value);
+    amount = wei === null ? undefined : formatUnits(wei, 18);
+  }
+
+  let addressNote: string | undefined;
+  if (isEnsName) addressNote = 'ENS name, resolved by your wallet';
+  else if (validation.valid && !validation.checksummed) addressNote = 'No EIP-55 checksum to verify';
+  else if (!validation.valid && validation.checksummed) addressNote = 'EIP-55 checksum mismatch';
+
+  return {
+    scheme: 'ethereum',
+    network,
+    address,
+    addressType: isEnsName ? 'ENS name' : 'Account',
+    addressValid: isEnsName || validation.valid,
+    addressNote,
+    amount,
+    unit,
+    chainId,
+    functionName,
+    tokenContract: isTokenTransfer ? target : undefined,
+    params
+  };
+}
+
+// Amount encoded in the BOLT11 human-readable part, in millisatoshis
+function bolt11AmountMsat(digits: string, multiplier?: string): bigint | null {
+  if (!multiplier) return BigInt(digits) * BigInt(1e11);
+  if (multiplier === 'p') {
+    return BigInt(digits) % BigInt(10) === BigInt(0) ? BigInt(digits) / BigInt(10) : null;
+  }
+  return BigInt(digits) * BigInt(BOLT11_MULTIPLIERS[multiplier]);
+}
+
+function parseLightning(value: string, params: Record<string, string>): CryptoPayment {
+  const base: CryptoPayment = {
+    scheme: 'lightning',
+    network: 'Bitcoin',
+    address: value,
+    addressType: 'Unknown',
+    addressValid: false,
+    unit: 'BTC',
+    params
+  };
+
+  if (/^[^@\s]+@[^@\s]+\.[a-z]{2,}$/i.test(value)) {
+    return { ...base, addressType: 'Lightning address', addressValid: true };
+  }
+
+  const decoded = bech32Decode(value);
+  if (!decoded) return base;
+
+  if (decoded.hrp === 'lnurl') {
+    const url = new TextDecoder().decode(wordsToBytes(decoded.words));
+    return { ...base, addressType: 'LNURL', addressValid: /^https?:\/\//i.test(url), description: url };
+  }
+
+  const hrp = decoded.hrp.match(/^ln(bcrt|bc|tbs|tb)(\d+)?([munp])?$/);
+  // Timestamp (7 words) plus signature (104 words) at minimum
+  if (!hrp || decoded.words.length < 111) return base;
+
+  const words = decoded.words.slice(0, -104);
+  const timestamp = wordsToNumber(words.slice(0, 7));
+  let expiry = 3600;
+  let description: string | undefined;
+  let payee: string | undefined;
+
+  for (let i = 7; i + 3 <= words.length;) {
+    const tag = words[i];
+    const length = words[i + 1] * 32 + words[i + 2];
+    const data = words.slice(i + 3, i + 3 + length);
+    i += 3 + length;
+
+    if (tag === 13) description = new TextDecoder().decode(wordsToBytes(data));
+    else if (tag === 6) expiry = wordsToNumber(data);
+    else if (tag === 19) payee = Array.from(wordsToBytes(data), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  const amountMsat = hrp[2] ? bolt11AmountMsat(hrp[2], hrp[3]) : null;
+
+  return {
+    ...base,
+    network: BITCOIN_NETWORKS[hrp[1]] ?? 'Bitcoin',
+    // Invoices pay a node, not an address; show the payee key when the invoice names it
+    address: payee ?? value,
+    addressType: 'Lightning invoice',
+    addressValid: hrp[2] === undefined || amountMsat !== null,
+    amount: amountMsat === null ? undefined : formatUnits(amountMsat, 11),
+    description,
+    expiresAt: (timestamp + expiry) * 1000,
+    invoice: value
+  };
+}
+
+/** Parses bitcoin: (BIP 21), ethereum: (EIP-681) and lightning: payment requests. */
+export function parseCryptoPayment(content: string): CryptoPayment {
+  const trimmed = content.trim();
+  const scheme = trimmed.match(/^([a-z]+):/i)?.[1].toLowerCase();
+
+  if (scheme === 'bitcoin') return parseBitcoinUri(trimmed);
+  if (scheme === 'ethereum') return parseEthereumUri(trimmed);
+
+  const [target, query = ''] = (scheme === 'lightning' ? trimmed.substring(10) : trimmed).split('?');
+  return parseLightning(target.replace(/^\/\//, ''), parseQuery(query));
+}
+
+export function formatCryptoAmount(payment: CryptoPayment): string | null {
+  return payment.amount ? `${payment.amount} ${payment.unit ?? ''}`.trim() : null;
+}
@@ -0,0 +1,108 @@
+import { parseMeCardFields } from './scan-mecard';
+
+export interface EmailDraft {
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject?: string;
+  body?: string;
+  // Payload the draft was read from
+  format: 'mailto' | 'matmsg' | 'address';
+}
+
+const EMAIL_ADDRESS_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isEmailAddress(value: string): boolean {
+  return EMAIL_ADDRESS_PATTERN.test(value.trim());
+}
+
+export function isMatMsg(content: string): boolean {
+  return /^MATMSG:/i.test(content.trim());
+}
+
+// mailto: keeps "+" literal (RFC 6068), unlike form encoding
+function decodeComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function splitAddresses(value: string): string[] {
+  return value.split(/[,;]/).map(address => address.trim()).filter(Boolean);
+}
+
+/**
+ * Parses a mailto: URI (RFC 6068), e.g.
+ * "mailto:a@example.com,b@example.com?cc=c@example.com&subject=Hi&body=...".
+ * Repeated to, cc and bcc headers add recipients; other headers are ignored.
+ */
+export function parseMailto(content: string): EmailDraft {
+  const value = content.trim().replace(/^mailto:/i, '');
+  const queryStart = value.indexOf('?');
+  const draft: EmailDraft = {
+    to: splitAddresses(decodeComponent(queryStart === -1 ? value : value.substring(0, queryStart))),
+    cc: [],
+    bcc: [],
+    format: 'mailto'
+  };
+
+  const query = queryStart === -1 ? '' : value.substring(queryStart + 1);
+  for (const pair of query.split('&').filter(Boolean)) {
+    const separator = pair.indexOf('=');
+    const key = (separator === -1 ? pair : pair.substring(0, separator)).toLowerCase();
+    const headerValue = separator === -1 ? '' : decodeComponent(pair.substring(separator + 1));
+
+    if (key === 'to' || key === 'cc' || key === 'bcc') {
+      draft[key].push(...splitAddresses(headerValue));
+    } else if (key === 'subject' && headerValue) {
+      draft.subject = headerValue;
+    } else if (key === 'body' && headerValue) {
+      // Line breaks are sent as CRLF
+      draft.body = headerValue.replace(/\r\n/g, '\n');
+    }
+  }
+
+  return draft;
+}
+
+/** Parses the "MATMSG:TO:address;SUB:subject;BODY:text;;" format used by many QR generators. */
+export function parseMatMsg(content: string): EmailDraft {
+  const draft: EmailDraft = { to: [], cc: [], bcc: [], format: 'matmsg' };
+
+  for (const { key, value } of parseMeCardFields(content.trim(), { keepLineBreaks: true })) {
+    if (key === 'TO') draft.to.push(...splitAddresses(value));
+    else if (key === 'CC') draft.cc.push(...splitAddresses(value));
+    else if (key === 'BCC') draft.bcc.push(...splitAddresses(value));
+    else if (key === 'SUB' && value.trim()) draft.subject = value.trim();
+    else if (key === 'BODY' && value.trim()) draft.body = value.replace(/\r\n/g, '\n').trim();
+  }
+
+  return draft;
+}
+
+/** Parses a mailto: URI, MATMSG: payload or bare address; null when the draft would be empty. */
+export function parseEmail(content: string): EmailDraft | null {
+  const value = content.trim();
+  let draft: EmailDraft;
+
+  if (/^mailto:/i.test(value)) {
+    draft = parseMailto(value);
+  } else if (isMatMsg(value)) {
+    draft = parseMatMsg(value);
+  } else if (isEmailAddress(value)) {
+    draft = { to: [value], cc: [], bcc: [], format: 'address' };
+  } else {
+    return null;
+  }
+
+  // "mailto:?subject=..." is valid: the sender picks the recipient
+  const hasContent = draft.to.length + draft.cc.length + draft.bcc.length > 0 || draft.subject || draft.body;
+  return hasContent ? draft : null;
+}
+
+/** Lists the draft's addresses that do not look like email addresses. */
+export function getInvalidRecipients(draft: EmailDraft): string[] {
+  return [...draft.to, ...draft.cc, ...draft.bcc].filter(address => !isEmailAddress(address));
+}
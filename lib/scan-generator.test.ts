@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { buildPayload } from './scan-generator';
+import { parseContent } from './scan-content-utils';
+
+describe('buildPayload', () => {
+  it.each([
+    ['example.com', 'https://example.com'],
+    ['example.com:8080', 'https://example.com:8080'],
+    ['localhost:3000/scan', 'https://localhost:3000/scan'],
+    ['192.168.1.10:8080/admin', 'https://192.168.1.10:8080/admin']
+  ])('adds https:// to %s', (url, payload) => {
+    expect(buildPayload({ type: 'url', url })).toBe(payload);
+    expect(parseContent(payload).type).toBe('url');
+  });
+
+  it.each(['http://example.com', 'https://example.com:8080/path', 'ftp://files.example.com', 'mailto:name@example.com'])('keeps the scheme of %s', url => {
+    expect(buildPayload({ type: 'url', url })).toBe(url);
+  });
+});
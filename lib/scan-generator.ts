@@ -0,0 +1,184 @@
+import QRCode from 'qrcode';
+import { VCardContact } from './scan-content-utils';
+import { processImage } from './scan-preprocessing';
+import { getUriScheme } from './scan-url';
+import { buildVCardPayload } from './scan-vcard';
+
+export { buildVCardPayload };
+
+export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export type WifiSecurity = 'WPA' | 'WEP' | 'nopass';
+
+export type GeneratorInput =
+  | { type: 'url'; url: string }
+  | { type: 'text'; text: string }
+  | { type: 'email'; to: string; subject?: string; body?: string }
+  | { type: 'phone'; phone: string }
+  | { type: 'sms'; number: string; message?: string }
+  | { type: 'wifi'; ssid: string; password?: string; security: WifiSecurity; hidden?: boolean }
+  | { type: 'location'; latitude: number; longitude: number }
+  | { type: 'vcard'; contact: VCardContact };
+
+export interface QRMatrix {
+  size: number;
+  version: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  // Row-major, true for dark modules
+  modules: boolean[][];
+}
+
+export interface RenderOptions {
+  // Pixels per module
+  scale?: number;
+  // Quiet zone in modules; the spec asks for at least 4
+  margin?: number;
+  darkColor?: string;
+  lightColor?: string;
+}
+
+export interface RoundTripResult {
+  ok: boolean;
+  decoded: string | null;
+}
+
+// WIFI: fields escape these characters with a backslash
+function escapeWifiValue(value: string): string {
+  return value.replace(/([\\;,:"])/g, '\\$1');
+}
+
+export function buildWifiPayload(ssid: string, security: WifiSecurity, password = '', hidden = false): string {
+  const pass = security === 'nopass' ? '' : escapeWifiValue(password);
+  return `WIFI:T:${security};S:${escapeWifiValue(ssid)};P:${pass};H:${hidden ? 'true' : 'false'};;`;
+}
+
+export function buildMailtoPayload(to: string, subject?: string, body?: string): string {
+  const params = new URLSearchParams();
+  if (subject) params.set('subject', subject);
+  if (body) params.set('body', body);
+
+  // URLSearchParams encodes spaces as "+", which mail clients show literally
+  const query = params.toString().replace(/\+/g, '%20');
+  return `mailto:${to}${query ? `?${query}` : ''}`;
+}
+
+export function buildPayload(input: GeneratorInput): string {
+  switch (input.type) {
+    case 'url':
+      // A host with a port, such as "localhost:3000", has no scheme yet
+      return getUriScheme(input.url) ? input.url : `https://${input.url}`;
+
+    case 'text':
+      return input.text;
+
+    case 'email':
+      return buildMailtoPayload(input.to, input.subject, input.body);
+
+    case 'phone':
+      return `tel:${input.phone.replace(/[^\d+]/g, '')}`;
+
+    case 'sms':
+      return `SMSTO:${input.number.replace(/[^\d+]/g, '')}:${input.message ?? ''}`;
+
+    case 'wifi':
+      return buildWifiPayload(input.ssid, input.security, input.password, input.hidden);
+
+    case 'location':
+      return `geo:${input.latitude},${input.longitude}`;
+
+    case 'vcard':
+      return buildVCardPayload(input.contact);
+  }
+}
+
+export const generatorTypes: Array<GeneratorInput['type']> = [
+  'url', 'text', 'email', 'phone', 'sms', 'wifi', 'location', 'vcard'
+];
+
+export function encodeQR(payload: string, errorCorrectionLevel: ErrorCorrectionLevel = 'M'): QRMatrix {
+  if (!payload) throw new Error('Nothing to encode');
+
+  const qr = QRCode.create(payload, { errorCorrectionLevel });
+  const size = qr.modules.size;
+  const modules = Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, col) => qr.modules.get(row, col) === 1)
+  );
+
+  return { size, version: qr.version, errorCorrectionLevel, modules };
+}
+
+export function renderSvg(matrix: QRMatrix, options: RenderOptions = {}): string {
+  const { margin = 4, darkColor = '#000000', lightColor = '#ffffff' } = options;
+  const scale = options.scale ?? 8;
+  const dimension = (matrix.size + margin * 2) * scale;
+  const path = matrixToPath(matrix, margin);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${dimension}" height="${dimension}" viewBox="0 0 ${matrix.size + margin * 2} ${matrix.size + margin * 2}" shape-rendering="crispEdges">`,
+    `<rect width="100%" height="100%" fill="${lightColor}"/>`,
+    `<path fill="${darkColor}" d="${path}"/>`,
+    '</svg>'
+  ].join('');
+}
+
+// One unit square per dark module, in module coordinates offset by the margin
+export function matrixToPath(matrix: QRMatrix, margin = 4): string {
+  const segments: string[] = [];
+
+  matrix.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) segments.push(`M${x + margin} ${y + margin}h1v1h-1z`);
+    });
+  });
+
+  return segments.join('');
+}
+
+export function renderCanvas(matrix: QRMatrix, options: RenderOptions = {}): HTMLCanvasElement {
+  const { margin = 4, darkColor = '#000000', lightColor = '#ffffff' } = options;
+  const scale = options.scale ?? 8;
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = (matrix.size + margin * 2) * scale;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+
+  ctx.fillStyle = lightColor;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = darkColor;
+
+  matrix.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) ctx.fillRect((x + margin) * scale, (y + margin) * scale, scale, scale);
+    });
+  });
+
+  return canvas;
+}
+
+export function renderPng(matrix: QRMatrix, options: RenderOptions = {}): Promise<Blob> {
+  const canvas = renderCanvas(matrix, options);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to render PNG'))), 'image/png');
+  });
+}
+
+/**
+ * Decodes the rendered code with the scanner's own pipeline to prove the
+ * generated image scans back to exactly the payload.
+ */
+export async function verifyRoundTrip(payload: string, matrix: QRMatrix): Promise<RoundTripResult> {
+  const canvas = renderCanvas(matrix, { scale: 4 });
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  // Generated codes say nothing about real photos, so they stay out of the strategy stats
+  const result = await processImage(canvas, imageData, () => {}, { recordStats: false });
+
+  return {
+    ok: result?.data === payload,
+    decoded: result?.data ?? null
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { buildGeoUri, hasCoordinates, parseGeoUri } from './scan-geo';
+
+describe('parseGeoUri', () => {
+  it('reads altitude, uncertainty and reference system', () => {
+    expect(parseGeoUri('geo:48.198634,16.371648,183;crs=wgs84;u=40')).toEqual({
+      latitude: 48.198634,
+      longitude: 16.371648,
+      altitude: 183,
+      uncertainty: 40,
+      source: 'geo'
+    });
+  });
+
+  it('keeps a "?q=" label next to real coordinates', () => {
+    const location = parseGeoUri('geo:37.786971,-122.399677;u=35?q=Home')!;
+    expect(location.label).toBe('Home');
+    expect(location.query).toBeUndefined();
+    expect(hasCoordinates(location)).toBe(true);
+  });
+
+  it('reads "?q=" as an address search without coordinates', () => {
+    const location = parseGeoUri('geo:0,0?q=1600+Amphitheatre+Parkway')!;
+    expect(location.query).toBe('1600 Amphitheatre Parkway');
+    expect(hasCoordinates(location)).toBe(false);
+  });
+
+  it('takes the position and label from a coordinate query', () => {
+    expect(parseGeoUri('geo:0,0?q=52.5,13.4(Brandenburg Gate)')).toMatchObject({
+      latitude: 52.5,
+      longitude: 13.4,
+      label: 'Brandenburg Gate'
+    });
+  });
+
+  it('rejects coordinates out of range', () => {
+    expect(parseGeoUri('geo:91,0')).toBeNull();
+  });
+});
+
+describe('buildGeoUri', () => {
+  it.each([
+    'geo:37.786971,-122.399677;u=35?q=Home',
+    'geo:48.2,16.3,183?q=Stephansplatz&z=17',
+    'geo:0,0?q=Berlin'
+  ])('round-trips %s', uri => {
+    const location = parseGeoUri(uri)!;
+    expect(parseGeoUri(buildGeoUri(location))).toEqual(location);
+  });
+});
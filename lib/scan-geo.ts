@@ -0,0 +1,285 @@
+import { getRegistrableDomain, getUriScheme } from './scan-url';
+
+export type MapProvider = 'geo' | 'openstreetmap' | 'apple' | 'google';
+
+export type CoordinateFormat = 'decimal' | 'dms';
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+  // Metres above the WGS-84 ellipsoid
+  altitude?: number;
+  // Uncertainty radius in metres (";u=")
+  uncertainty?: number;
+  // Coordinate reference system when it is not WGS-84
+  crs?: string;
+  // Place name, e.g. from "?q=52.5,13.4(Brandenburg Gate)", "geo:52.5,13.4?q=Home" or a Google place link
+  label?: string;
+  // Address search for links without coordinates, e.g. "geo:0,0?q=Berlin"
+  query?: string;
+  zoom?: number;
+  // Where the location was read from
+  source: 'geo' | MapProvider;
+}
+
+export const MAP_PROVIDERS: Record<MapProvider, string> = {
+  openstreetmap: 'OpenStreetMap',
+  apple: 'Apple Maps',
+  google: 'Google Maps',
+  geo: 'Default map app (geo:)'
+};
+
+const NUMBER = '-?\\d+(?:\\.\\d+)?';
+const COORDINATES_PATTERN = new RegExp(`^\\s*(${NUMBER})\\s*,\\s*(${NUMBER})\\s*(?:\\((.*)\\))?\\s*$`);
+
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+function parseZoom(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const zoom = parseFloat(value);
+  return zoom >= 0 && zoom <= 23 ? zoom : undefined;
+}
+
+function isValidCoordinate(latitude: number, longitude: number): boolean {
+  return Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+}
+
+// "52.5,13.4" or Android's "52.5,13.4(Label)"
+function parseCoordinatePair(value: string): { latitude: number; longitude: number; label?: string } | null {
+  const match = value.match(COORDINATES_PATTERN);
+  if (!match) return null;
+
+  const latitude = parseFloat(match[1]);
+  const longitude = parseFloat(match[2]);
+  if (!isValidCoordinate(latitude, longitude)) return null;
+
+  return { latitude, longitude, label: match[3]?.trim() || undefined };
+}
+
+/** True when the location points somewhere, rather than only carrying an address search. */
+export function hasCoordinates(location: GeoLocation): boolean {
+  return !(location.query && location.latitude === 0 && location.longitude === 0);
+}
+
+/**
+ * Parses an RFC 5870 geo: URI, e.g. "geo:48.2,16.3,183;crs=wgs84;u=40",
+ * including Android's "?q=" label or search and "?z=" zoom extensions.
+ */
+export function parseGeoUri(content: string): GeoLocation | null {
+  const match = content.trim().match(new RegExp(`^geo:(${NUMBER}),(${NUMBER})(?:,(${NUMBER}))?((?:;[^?]*)?)(?:\\?(.*))?$`, 'is'));
+  if (!match) return null;
+
+  const [, lat, lng, alt, params, query = ''] = match;
+  const location: GeoLocation = { latitude: parseFloat(lat), longitude: parseFloat(lng), source: 'geo' };
+  if (alt !== undefined) location.altitude = parseFloat(alt);
+
+  for (const param of params.split(';').filter(Boolean)) {
+    const [name, value = ''] = param.split('=');
+    const key = name.toLowerCase();
+
+    if (key === 'crs' && value.toLowerCase() !== 'wgs84') {
+      location.crs = decodeParam(value);
+    } else if (key === 'u' && /^\d+(\.\d+)?$/.test(value)) {
+      location.uncertainty = parseFloat(value);
+    }
+  }
+
+  // Other reference systems use other ranges, so only WGS-84 is checked
+  if (!location.crs && !isValidCoordinate(location.latitude, location.longitude)) return null;
+
+  for (const pair of query.split('&').filter(Boolean)) {
+    const separator = pair.indexOf('=');
+    const key = (separator === -1 ? pair : pair.substring(0, separator)).toLowerCase();
+    const value = separator === -1 ? '' : decodeParam(pair.substring(separator + 1));
+
+    if (key === 'z') {
+      location.zoom = parseZoom(value);
+    } else if (key === 'q' && value) {
+      const pin = parseCoordinatePair(value);
+      if (pin) {
+        // "geo:0,0?q=lat,lng(label)" puts the real position in the query
+        if (location.latitude === 0 && location.longitude === 0) {
+          location.latitude = pin.latitude;
+          location.longitude = pin.longitude;
+        }
+        location.label = pin.label;
+      } else if (location.latitude === 0 && location.longitude === 0) {
+        location.query = value.trim();
+      } else {
+        // With real coordinates the text only names the place, e.g. "geo:37.78,-122.39?q=Home"
+        location.label = value.trim();
+      }
+    }
+  }
+
+  return location;
+}
+
+function toUrl(content: string): URL | null {
+  const value = content.trim();
+  if (/\s/.test(value)) return null;
+
+  try {
+    return new URL(getUriScheme(value) ? value : `https://${value}`);
+  } catch {
+    return null;
+  }
+}
+
+function mapProviderOf(url: URL): MapProvider | null {
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+
+  const hostname = url.hostname.toLowerCase();
+  const domain = getRegistrableDomain(hostname);
+
+  // google.com, google.de, google.co.uk, ... but only their own hosts
+  if (domain?.split('.')[0] === 'google' && /^((www|maps)\.)?google\./.test(hostname)) {
+    return hostname.startsWith('maps.') || url.pathname.startsWith('/maps') ? 'google' : null;
+  }
+  if (hostname === 'maps.apple.com' || hostname === 'maps.apple') return 'apple';
+  if (domain === 'openstreetmap.org' || domain === 'osm.org') return 'openstreetmap';
+  return null;
+}
+
+/** Reads a location from a Google Maps, Apple Maps or OpenStreetMap link, or returns null. */
+export function parseMapUrl(content: string): GeoLocation | null {
+  const url = toUrl(content);
+  const provider = url && mapProviderOf(url);
+  if (!url || !provider) return null;
+
+  const params = url.searchParams;
+  let position: { latitude: number; longitude: number } | undefined;
+  let label: string | undefined;
+  let search: string | undefined;
+  let zoom: number | undefined;
+
+  // Query values hold coordinates ("52.5,13.4"), a place name or an address search
+  const readValue = (value: string | null, asLabel = false) => {
+    if (!value?.trim()) return;
+
+    const pin = parseCoordinatePair(value);
+    if (pin) {
+      position ??= pin;
+      label ??= pin.label;
+    } else if (asLabel) {
+      label ??= value.trim();
+    } else {
+      search ??= value.trim();
+    }
+  };
+
+  const setPosition = (latitude: number, longitude: number) => {
+    if (isValidCoordinate(latitude, longitude)) position ??= { latitude, longitude };
+  };
+
+  if (provider === 'google') {
+    const path = decodeParam(url.pathname);
+    // "!3d" and "!4d" hold the place itself; "@lat,lng,zoomz" is only the map centre
+    const place = path.match(new RegExp(`!3d(${NUMBER})!4d(${NUMBER})`));
+    const centre = path.match(new RegExp(`@(${NUMBER}),(${NUMBER})(?:,(\\d+(?:\\.\\d+)?)z)?`));
+    const name = path.match(/\/maps\/(place|search)\/([^/@]+)/);
+
+    if (place) setPosition(parseFloat(place[1]), parseFloat(place[2]));
+    if (name) readValue(name[2], name[1] === 'place');
+    ['q', 'query', 'll', 'center', 'destination', 'daddr'].forEach(key => readValue(params.get(key)));
+    if (centre) setPosition(parseFloat(centre[1]), parseFloat(centre[2]));
+    zoom = parseZoom(centre?.[3] ?? params.get('z') ?? params.get('zoom'));
+  } else if (provider === 'apple') {
+    ['ll', 'sll', 'daddr', 'address'].forEach(key => readValue(params.get(key)));
+    readValue(params.get('q'), true);
+    zoom = parseZoom(params.get('z'));
+  } else {
+    const map = url.hash.match(new RegExp(`map=(\\d+(?:\\.\\d+)?)/(${NUMBER})/(${NUMBER})`));
+    const markerLat = params.get('mlat');
+    const markerLng = params.get('mlon');
+
+    if (markerLat && markerLng) setPosition(parseFloat(markerLat), parseFloat(markerLng));
+    if (map) setPosition(parseFloat(map[2]), parseFloat(map[3]));
+    readValue(params.get('query'));
+    zoom = parseZoom(map?.[1] ?? params.get('zoom'));
+  }
+
+  if (position) {
+    return { ...position, label: label ?? search, zoom, source: provider };
+  }
+
+  // A map link with neither coordinates nor a search is just a website
+  return search || label ? { latitude: 0, longitude: 0, query: search ?? label, zoom, source: provider } : null;
+}
+
+function formatDecimal(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
+
+function formatDms(value: number, positive: string, negative: string): string {
+  // Work in tenths of a second so rounding carries into minutes and degrees
+  const tenths = Math.round(Math.abs(value) * 36000);
+  const degrees = Math.floor(tenths / 36000);
+  const minutes = Math.floor((tenths % 36000) / 600);
+  const seconds = ((tenths % 600) / 10).toFixed(1);
+  return `${degrees}°${String(minutes).padStart(2, '0')}'${seconds.padStart(4, '0')}"${value < 0 && tenths > 0 ? negative : positive}`;
+}
+
+/** Formats coordinates as "52.516275, 13.377704" or 52°30'58.6"N 13°22'39.7"E. */
+export function formatCoordinates(latitude: number, longitude: number, format: CoordinateFormat = 'decimal'): string {
+  if (format === 'dms') {
+    return `${formatDms(latitude, 'N', 'S')} ${formatDms(longitude, 'E', 'W')}`;
+  }
+  return `${formatDecimal(latitude)}, ${formatDecimal(longitude)}`;
+}
+
+/** Builds a geo: URI with a "?q=" pin (and label) so map apps drop a marker. */
+export function buildGeoUri(location: GeoLocation): string {
+  if (!hasCoordinates(location)) {
+    return `geo:0,0?q=${encodeURIComponent(location.query!)}`;
+  }
+
+  const { latitude, longitude, altitude, uncertainty, label, zoom } = location;
+  const position = `${formatDecimal(latitude)},${formatDecimal(longitude)}`;
+  const params = [
+    location.crs && `crs=${location.crs}`,
+    uncertainty !== undefined && `u=${uncertainty}`
+  ].filter(Boolean).map(param => `;${param}`).join('');
+  const query = [
+    `q=${position}${label ? `(${encodeURIComponent(label)})` : ''}`,
+    zoom !== undefined && `z=${zoom}`
+  ].filter(Boolean).join('&');
+
+  return `geo:${position}${altitude !== undefined ? `,${altitude}` : ''}${params}?${query}`;
+}
+
+/** Builds a link that shows the location in a map provider. */
+export function buildMapUri(location: GeoLocation, provider: MapProvider): string {
+  if (provider === 'geo') return buildGeoUri(location);
+
+  if (!hasCoordinates(location)) {
+    const search = encodeURIComponent(location.query!);
+    switch (provider) {
+      case 'apple':
+        return `https://maps.apple.com/?q=${search}`;
+      case 'google':
+        return `https://www.google.com/maps/search/?api=1&query=${search}`;
+      case 'openstreetmap':
+        return `https://www.openstreetmap.org/search?query=${search}`;
+    }
+  }
+
+  const latitude = formatDecimal(location.latitude);
+  const longitude = formatDecimal(location.longitude);
+  const zoom = location.zoom !== undefined ? Math.round(location.zoom) : undefined;
+
+  switch (provider) {
+    case 'apple':
+      return `https://maps.apple.com/?ll=${latitude},${longitude}&q=${encodeURIComponent(location.label ?? `${latitude},${longitude}`)}${zoom !== undefined ? `&z=${zoom}` : ''}`;
+    case 'google':
+      return `https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`;
+    case 'openstreetmap':
+      return `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=${zoom ?? 16}/${latitude}/${longitude}`;
+  }
+}
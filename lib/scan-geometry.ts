@@ -0,0 +1,225 @@
+import type { QRResult } from './scan-strategies';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface TransformedImage {
+  imageData: ImageData;
+  // Maps a point in the transformed image back to the original image
+  mapPoint: (point: Point) => Point;
+}
+
+export interface GeometricTransform {
+  name: string;
+  // One image may produce several candidates, e.g. one per pyramid level or tile
+  apply: (imageData: ImageData) => TransformedImage[];
+}
+
+// Larger images are downscaled before rotating to bound memory use
+const MAX_ROTATION_SIZE = 1600;
+const MAX_UPSCALE_SIZE = 2400;
+const MIN_DOWNSCALE_SIZE = 100;
+
+const identity = (point: Point): Point => point;
+
+export function mapLocation(location: QRResult['location'], mapPoint: (point: Point) => Point): QRResult['location'] {
+  return {
+    topLeftCorner: mapPoint(location.topLeftCorner),
+    topRightCorner: mapPoint(location.topRightCorner),
+    bottomLeftCorner: mapPoint(location.bottomLeftCorner),
+    bottomRightCorner: mapPoint(location.bottomRightCorner)
+  };
+}
+
+export function scaleImageData(imageData: ImageData, factor: number): ImageData {
+  const { width, height, data } = imageData;
+  const newWidth = Math.max(1, Math.round(width * factor));
+  const newHeight = Math.max(1, Math.round(height * factor));
+  const output = new Uint8ClampedArray(newWidth * newHeight * 4);
+
+  for (let y = 0; y < newHeight; y++) {
+    const srcY0 = Math.floor(y / factor);
+    const srcY1 = Math.min(height, Math.max(srcY0 + 1, Math.floor((y + 1) / factor)));
+
+    for (let x = 0; x < newWidth; x++) {
+      const srcX0 = Math.floor(x / factor);
+      const srcX1 = Math.min(width, Math.max(srcX0 + 1, Math.floor((x + 1) / factor)));
+      let r = 0, g = 0, b = 0, count = 0;
+
+      // Area average when shrinking, nearest neighbour when enlarging
+      for (let sy = srcY0; sy < srcY1; sy++) {
+        for (let sx = srcX0; sx < srcX1; sx++) {
+          const idx = (sy * width + sx) * 4;
+          r += data[idx];
+          g += data[idx + 1];
+          b += data[idx + 2];
+          count++;
+        }
+      }
+
+      const idx = (y * newWidth + x) * 4;
+      output[idx] = r / count;
+      output[idx + 1] = g / count;
+      output[idx + 2] = b / count;
+      output[idx + 3] = 255;
+    }
+  }
+
+  return new ImageData(output, newWidth, newHeight);
+}
+
+export function cropImageData(imageData: ImageData, x: number, y: number, width: number, height: number): ImageData {
+  const output = new Uint8ClampedArray(width * height * 4);
+
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * imageData.width + x) * 4;
+    output.set(imageData.data.subarray(start, start + width * 4), row * width * 4);
+  }
+
+  return new ImageData(output, width, height);
+}
+
+/**
+ * Rotates around the image center into a canvas large enough to hold the result.
+ * Uncovered corners are filled white so they read as quiet zone.
+ */
+export function rotateImageData(imageData: ImageData, degrees: number): TransformedImage {
+  const { width, height, data } = imageData;
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const newWidth = Math.round(Math.abs(width * cos) + Math.abs(height * sin));
+  const newHeight = Math.round(Math.abs(width * sin) + Math.abs(height * cos));
+  const output = new Uint8ClampedArray(newWidth * newHeight * 4).fill(255);
+
+  const mapPoint = (point: Point): Point => {
+    const dx = point.x - newWidth / 2;
+    const dy = point.y - newHeight / 2;
+    return {
+      x: width / 2 + dx * cos + dy * sin,
+      y: height / 2 - dx * sin + dy * cos
+    };
+  };
+
+  for (let y = 0; y < newHeight; y++) {
+    for (let x = 0; x < newWidth; x++) {
+      const source = mapPoint({ x: x + 0.5, y: y + 0.5 });
+      const sx = Math.floor(source.x);
+      const sy = Math.floor(source.y);
+      if (sx < 0 || sy < 0 || sx >= width || sy >= height) continue;
+
+      const srcIdx = (sy * width + sx) * 4;
+      const idx = (y * newWidth + x) * 4;
+      output[idx] = data[srcIdx];
+      output[idx + 1] = data[srcIdx + 1];
+      output[idx + 2] = data[srcIdx + 2];
+    }
+  }
+
+  return { imageData: new ImageData(output, newWidth, newHeight), mapPoint };
+}
+
+function fitWithin(imageData: ImageData, maxSize: number): TransformedImage {
+  const largest = Math.max(imageData.width, imageData.height);
+  if (largest <= maxSize) return { imageData, mapPoint: identity };
+
+  const factor = maxSize / largest;
+  return {
+    imageData: scaleImageData(imageData, factor),
+    mapPoint: point => ({ x: point.x / factor, y: point.y / factor })
+  };
+}
+
+/**
+ * Splits the image into a grid and returns the cells with the highest gray-level
+ * variance, which is where a QR code's module pattern usually sits.
+ */
+export function findHighContrastRegions(
+  imageData: ImageData,
+  maxRegions = 4
+): Array<{ x: number; y: number; size: number }> {
+  const { width, height, data } = imageData;
+  const cell = Math.max(64, Math.round(Math.min(width, height) / 8));
+  const regions: Array<{ x: number; y: number; size: number; score: number }> = [];
+
+  for (let cy = 0; cy + cell <= height; cy += cell) {
+    for (let cx = 0; cx + cell <= width; cx += cell) {
+      let sum = 0, sumSq = 0, count = 0;
+
+      for (let y = cy; y < cy + cell; y += 2) {
+        for (let x = cx; x < cx + cell; x += 2) {
+          const idx = (y * width + x) * 4;
+          const gray = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+          sum += gray;
+          sumSq += gray * gray;
+          count++;
+        }
+      }
+
+      const mean = sum / count;
+      const variance = sumSq / count - mean * mean;
+      regions.push({ x: cx, y: cy, size: cell, score: variance });
+    }
+  }
+
+  return regions
+    .filter(region => region.score > 1000)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxRegions)
+    .map(({ x, y, size }) => ({ x, y, size }));
+}
+
+export function pyramidTransform(factors: number[]): GeometricTransform {
+  return {
+    name: `Scale ${factors.join('/')}`,
+    apply: (imageData) => factors
+      .filter(factor => factor < 1
+        ? Math.min(imageData.width, imageData.height) * factor >= MIN_DOWNSCALE_SIZE
+        : Math.max(imageData.width, imageData.height) * factor <= MAX_UPSCALE_SIZE)
+      .map(factor => ({
+        imageData: scaleImageData(imageData, factor),
+        mapPoint: point => ({ x: point.x / factor, y: point.y / factor })
+      }))
+  };
+}
+
+export function rotationTransform(angles: number[]): GeometricTransform {
+  return {
+    name: `Rotate ${angles.join('/')}°`,
+    apply: (imageData) => {
+      const fitted = fitWithin(imageData, MAX_ROTATION_SIZE);
+
+      return angles.map(angle => {
+        const rotated = rotateImageData(fitted.imageData, angle);
+        return {
+          imageData: rotated.imageData,
+          mapPoint: point => fitted.mapPoint(rotated.mapPoint(point))
+        };
+      });
+    }
+  };
+}
+
+export function tileTransform(maxTiles = 4): GeometricTransform {
+  return {
+    name: 'High-contrast tiles',
+    apply: (imageData) => findHighContrastRegions(imageData, maxTiles).map(region => {
+      // Take a window of three cells around the hot cell so a code spanning cells fits
+      const size = Math.min(region.size * 3, imageData.width, imageData.height);
+      const x = Math.max(0, Math.min(imageData.width - size, region.x - region.size));
+      const y = Math.max(0, Math.min(imageData.height - size, region.y - region.size));
+      const crop = cropImageData(imageData, x, y, size, size);
+
+      // Small tiles are enlarged so tiny codes get enough pixels per module
+      const factor = size < 400 ? 2 : 1;
+      const tile = factor === 1 ? crop : scaleImageData(crop, factor);
+
+      return {
+        imageData: tile,
+        mapPoint: point => ({ x: x + point.x / factor, y: y + point.y / factor })
+      };
+    })
+  };
+}
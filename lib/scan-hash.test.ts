@@ -0,0 +1,32 @@
+import { createHash, createHmac } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { hmac, keccak256, sha1, sha256, sha512, toHex } from './scan-hash';
+
+const encoder = new TextEncoder();
+
+// Lengths around the 64 and 128 byte block sizes and their padding boundaries
+const messages = ['', 'abc', 'The quick brown fox jumps over the lazy dog', 'a'.repeat(55), 'a'.repeat(56), 'a'.repeat(64), 'a'.repeat(111), 'a'.repeat(112), 'a'.repeat(1000), 'ünïcödé ✓'];
+
+describe('hashes', () => {
+  it.each(messages)('match Node crypto for %j', message => {
+    const data = encoder.encode(message);
+    expect(toHex(sha1(data))).toBe(createHash('sha1').update(data).digest('hex'));
+    expect(toHex(sha256(data))).toBe(createHash('sha256').update(data).digest('hex'));
+    expect(toHex(sha512(data))).toBe(createHash('sha512').update(data).digest('hex'));
+  });
+
+  it('computes Keccak-256 as used by Ethereum', () => {
+    expect(toHex(keccak256(new Uint8Array()))).toBe('c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+  });
+});
+
+describe('hmac', () => {
+  it.each(['key', 'k'.repeat(64), 'k'.repeat(200)])('matches Node crypto with a key of %j', key => {
+    const keyBytes = encoder.encode(key);
+    const message = encoder.encode('The quick brown fox jumps over the lazy dog');
+
+    expect(toHex(hmac(sha1, 64, keyBytes, message))).toBe(createHmac('sha1', keyBytes).update(message).digest('hex'));
+    expect(toHex(hmac(sha256, 64, keyBytes, message))).toBe(createHmac('sha256', keyBytes).update(message).digest('hex'));
+    expect(toHex(hmac(sha512, 128, keyBytes, message))).toBe(createHmac('sha512', keyBytes).update(message).digest('hex'));
+  });
+});
@@ -0,0 +1,311 @@
+// Synchronous hashes for checksum validation and one-time codes during
+// rendering; WebCrypto's digest() and HMAC are async and have no Keccak.
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+function rotr(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
+
+// Appends the 0x80 marker, zero padding and the 64-bit big-endian bit length
+function padMessage(data: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(Math.ceil((data.length + 9) / 64) * 64);
+  padded.set(data);
+  padded[data.length] = 0x80;
+
+  const view = new DataView(padded.buffer);
+  const bitLength = data.length * 8;
+  view.setUint32(padded.length - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(padded.length - 4, bitLength >>> 0);
+  return padded;
+}
+
+function rotl(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits));
+}
+
+export function sha1(data: Uint8Array): Uint8Array {
+  const padded = padMessage(data);
+  const view = new DataView(padded.buffer);
+  const hash = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0]);
+  const w = new Uint32Array(80);
+
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 80; i++) w[i] = rotl(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+
+    let [a, b, c, d, e] = hash;
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+
+      const t = (rotl(a, 5) + f + e + k + w[i]) >>> 0;
+      e = d;
+      d = c;
+      c = rotl(b, 30) >>> 0;
+      b = a;
+      a = t;
+    }
+
+    hash[0] += a;
+    hash[1] += b;
+    hash[2] += c;
+    hash[3] += d;
+    hash[4] += e;
+  }
+
+  const output = new Uint8Array(20);
+  const outputView = new DataView(output.buffer);
+  hash.forEach((word, i) => outputView.setUint32(i * 4, word));
+  return output;
+}
+
+export function sha256(data: Uint8Array): Uint8Array {
+  const padded = padMessage(data);
+  const view = new DataView(padded.buffer);
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ]);
+  const w = new Uint32Array(64);
+
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) >>> 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    hash[0] += a;
+    hash[1] += b;
+    hash[2] += c;
+    hash[3] += d;
+    hash[4] += e;
+    hash[5] += f;
+    hash[6] += g;
+    hash[7] += h;
+  }
+
+  const output = new Uint8Array(32);
+  const outputView = new DataView(output.buffer);
+  hash.forEach((word, i) => outputView.setUint32(i * 4, word));
+  return output;
+}
+
+const MASK_64 = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+// Rotation offsets indexed [x][y]
+const KECCAK_ROTATIONS = [
+  [0, 36, 3, 41, 18],
+  [1, 44, 10, 45, 2],
+  [62, 6, 43, 15, 61],
+  [28, 55, 25, 21, 56],
+  [27, 20, 39, 8, 14]
+];
+
+// Round constants from the spec's LFSR
+const KECCAK_ROUND_CONSTANTS = (() => {
+  const constants: bigint[] = [];
+  let register = 1;
+
+  for (let round = 0; round < 24; round++) {
+    let constant = BigInt(0);
+    for (let j = 0; j < 7; j++) {
+      register = ((register << 1) ^ ((register >> 7) * 0x71)) % 256;
+      if (register & 2) constant ^= BigInt(1) << BigInt((1 << j) - 1);
+    }
+    constants.push(constant);
+  }
+
+  return constants;
+})();
+
+function rotl64(value: bigint, bits: number): bigint {
+  if (bits === 0) return value;
+  return ((value << BigInt(bits)) | (value >> BigInt(64 - bits))) & MASK_64;
+}
+
+function firstPrimes(count: number): number[] {
+  const primes: number[] = [];
+  for (let candidate = 2; primes.length < count; candidate++) {
+    if (primes.every(prime => candidate % prime !== 0)) primes.push(candidate);
+  }
+  return primes;
+}
+
+// Integer n-th root by Newton's method
+function integerRoot(value: bigint, degree: number): bigint {
+  const n = BigInt(degree);
+  let x = BigInt(1) << BigInt(Math.ceil(value.toString(2).length / degree) + 1);
+
+  for (;;) {
+    const next = ((n - BigInt(1)) * x + value / x ** (n - BigInt(1))) / n;
+    if (next >= x) return x;
+    x = next;
+  }
+}
+
+// Constants are the first 64 fractional bits of the primes' square and cube roots, as in FIPS 180-4
+const SHA512_INITIAL = firstPrimes(8).map(prime => integerRoot(BigInt(prime) << BigInt(128), 2) & MASK_64);
+const SHA512_K = firstPrimes(80).map(prime => integerRoot(BigInt(prime) << BigInt(192), 3) & MASK_64);
+
+function rotr64(value: bigint, bits: number): bigint {
+  return rotl64(value, 64 - bits);
+}
+
+export function sha512(data: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(Math.ceil((data.length + 17) / 128) * 128);
+  padded.set(data);
+  padded[data.length] = 0x80;
+
+  const view = new DataView(padded.buffer);
+  const bitLength = data.length * 8;
+  view.setUint32(padded.length - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(padded.length - 4, bitLength >>> 0);
+
+  const hash = SHA512_INITIAL.slice();
+  const w = new Array<bigint>(80);
+
+  for (let offset = 0; offset < padded.length; offset += 128) {
+    for (let i = 0; i < 16; i++) w[i] = view.getBigUint64(offset + i * 8);
+    for (let i = 16; i < 80; i++) {
+      const s0 = rotr64(w[i - 15], 1) ^ rotr64(w[i - 15], 8) ^ (w[i - 15] >> BigInt(7));
+      const s1 = rotr64(w[i - 2], 19) ^ rotr64(w[i - 2], 61) ^ (w[i - 2] >> BigInt(6));
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) & MASK_64;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 80; i++) {
+      const s1 = rotr64(e, 14) ^ rotr64(e, 18) ^ rotr64(e, 41);
+      const t1 = (h + s1 + ((e & f) ^ (~e & MASK_64 & g)) + SHA512_K[i] + w[i]) & MASK_64;
+      const s0 = rotr64(a, 28) ^ rotr64(a, 34) ^ rotr64(a, 39);
+      const t2 = (s0 + ((a & b) ^ (a & c) ^ (b & c))) & MASK_64;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) & MASK_64;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) & MASK_64;
+    }
+
+    [a, b, c, d, e, f, g, h].forEach((value, i) => {
+      hash[i] = (hash[i] + value) & MASK_64;
+    });
+  }
+
+  const output = new Uint8Array(64);
+  const outputView = new DataView(output.buffer);
+  hash.forEach((word, i) => outputView.setBigUint64(i * 8, word));
+  return output;
+}
+
+/** HMAC (RFC 2104) over any of the hashes above; blockSize is 64 for SHA-1/SHA-256 and 128 for SHA-512. */
+export function hmac(hash: (data: Uint8Array) => Uint8Array, blockSize: number, key: Uint8Array, message: Uint8Array): Uint8Array {
+  const blockKey = new Uint8Array(blockSize);
+  blockKey.set(key.length > blockSize ? hash(key) : key);
+
+  const inner = new Uint8Array(blockSize + message.length);
+  inner.set(blockKey.map(byte => byte ^ 0x36));
+  inner.set(message, blockSize);
+  const innerHash = hash(inner);
+
+  const outer = new Uint8Array(blockSize + innerHash.length);
+  outer.set(blockKey.map(byte => byte ^ 0x5c));
+  outer.set(innerHash, blockSize);
+  return hash(outer);
+}
+
+function keccakF(state: bigint[]) {
+  for (const roundConstant of KECCAK_ROUND_CONSTANTS) {
+    const c = [0, 1, 2, 3, 4].map(x => state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20]);
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5] ^ rotl64(c[(x + 1) % 5], 1);
+      for (let y = 0; y < 5; y++) state[x + 5 * y] ^= d;
+    }
+
+    const b = new Array<bigint>(25);
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        b[y + 5 * ((2 * x + 3 * y) % 5)] = rotl64(state[x + 5 * y], KECCAK_ROTATIONS[x][y]);
+      }
+    }
+
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        state[x + 5 * y] = b[x + 5 * y] ^ (~b[(x + 1) % 5 + 5 * y] & MASK_64 & b[(x + 2) % 5 + 5 * y]);
+      }
+    }
+
+    state[0] ^= roundConstant;
+  }
+}
+
+/** Keccak-256 as used by Ethereum (original Keccak padding, not SHA3-256). */
+export function keccak256(data: Uint8Array): Uint8Array {
+  const rate = 136;
+  const padded = new Uint8Array(Math.floor(data.length / rate) * rate + rate);
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Array<bigint>(25).fill(BigInt(0));
+
+  for (let offset = 0; offset < padded.length; offset += rate) {
+    for (let i = 0; i < rate / 8; i++) {
+      let lane = BigInt(0);
+      for (let byte = 7; byte >= 0; byte--) {
+        lane = (lane << BigInt(8)) | BigInt(padded[offset + i * 8 + byte]);
+      }
+      state[i] ^= lane;
+    }
+    keccakF(state);
+  }
+
+  const output = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    output[i] = Number((state[Math.floor(i / 8)] >> BigInt((i % 8) * 8)) & BigInt(0xff));
+  }
+  return output;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,156 @@
+import { ContentType, ParsedContent, parseContent } from './scan-content-utils';
+import { isParsedContent } from './scan-content-validation';
+
+export interface HistoryEntry {
+  id: number;
+  content: ParsedContent;
+  rawData: string;
+  timestamp: number;
+  strategy?: string;
+  // Small JPEG data URL of the scanned image
+  thumbnail?: string;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'timestamp'> & { timestamp?: number };
+
+export interface HistoryFilter {
+  query?: string;
+  type?: ContentType;
+}
+
+const DB_NAME = 'prismio-scan-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'scans';
+const ENABLED_STORAGE_KEY = 'prismio-history-enabled';
+const THUMBNAIL_SIZE = 96;
+
+export function isHistorySupported(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+// History is opt-in; nothing is stored until the user turns it on
+export function isHistoryEnabled(): boolean {
+  if (typeof localStorage === 'undefined') return false;
+  return localStorage.getItem(ENABLED_STORAGE_KEY) === 'true';
+}
+
+export function setHistoryEnabled(enabled: boolean) {
+  if (typeof localStorage === 'undefined') return;
+  if (enabled) {
+    localStorage.setItem(ENABLED_STORAGE_KEY, 'true');
+  } else {
+    localStorage.removeItem(ENABLED_STORAGE_KEY);
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!isHistorySupported()) {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('timestamp', 'timestamp');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  try {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const completed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+
+    const [result] = await Promise.all([
+      requestToPromise(run(transaction.objectStore(STORE_NAME))),
+      completed
+    ]);
+
+    return result;
+  } finally {
+    db.close();
+  }
+}
+
+export async function addHistoryEntry(entry: NewHistoryEntry): Promise<number> {
+  const record = { ...entry, timestamp: entry.timestamp ?? Date.now() };
+  const key = await withStore('readwrite', store => store.add(record));
+  return key as number;
+}
+
+export async function getHistoryEntries(filter: HistoryFilter = {}): Promise<HistoryEntry[]> {
+  const entries = await withStore<HistoryEntry[]>('readonly', store => store.getAll());
+  const query = filter.query?.trim().toLowerCase();
+
+  return entries
+    // Entries saved by older versions may have a different payload shape; parse those again
+    .map(entry => (isParsedContent(entry.content) ? entry : { ...entry, content: parseContent(entry.rawData) }))
+    .filter(entry => !filter.type || entry.content.type === filter.type)
+    .filter(entry => !query ||
+      entry.rawData.toLowerCase().includes(query) ||
+      entry.content.displayText.toLowerCase().includes(query))
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export async function deleteHistoryEntry(id: number): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export async function clearHistory(): Promise<void> {
+  await withStore('readwrite', store => store.clear());
+}
+
+export function createThumbnail(source: CanvasImageSource & { width: number; height: number }): string | undefined {
+  if (!source.width || !source.height) return undefined;
+
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(source.width, source.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return undefined;
+
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.7);
+}
+
+/**
+ * Saves a scan when the user has opted in; failures are logged rather than
+ * surfaced because history is a convenience, not part of the scan itself.
+ */
+export async function saveScanToHistory(entry: NewHistoryEntry): Promise<void> {
+  if (!isHistoryEnabled() || !isHistorySupported()) return;
+  // Two-factor setup codes carry the shared secret, which must not sit in storage
+  if (entry.content.type === 'otp') return;
+
+  try {
+    await addHistoryEntry(entry);
+  } catch (error) {
+    console.warn('Failed to save scan to history:', error);
+  }
+}
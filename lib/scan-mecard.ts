@@ -0,0 +1,204 @@
+import type { VCardContact } from './scan-content-utils';
+import { addUnmappedField, formatBirthday, splitEscaped } from './scan-vcard';
+
+export interface MeCardField {
+  key: string;
+  value: string;
+}
+
+function unescapeMeCardValue(value: string): string {
+  return value.replace(/\\(.)/g, '$1');
+}
+
+function findUnescaped(value: string, char: string): number {
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\') i++;
+    else if (value[i] === char) return i;
+  }
+  return -1;
+}
+
+/**
+ * Tokenizes the "PREFIX:KEY:value;KEY:value;;" syntax shared by MECARD:,
+ * BIZCARD:, WIFI: and MATMSG: payloads. Fields may come in any order; values keep
+ * backslash-escaped ";", ":", "," and "\" until unescaped here.
+ */
+export function parseMeCardFields(content: string, options: { keepEscapes?: boolean; keepLineBreaks?: boolean } = {}): MeCardField[] {
+  const prefixEnd = content.indexOf(':');
+  const body = prefixEnd === -1 ? content : content.substring(prefixEnd + 1);
+  const fields: MeCardField[] = [];
+
+  // Line breaks are wrapping except in free text such as MATMSG bodies
+  for (const part of splitEscaped(options.keepLineBreaks ? body : body.replace(/\r?\n/g, ''), ';')) {
+    const colonIndex = findUnescaped(part, ':');
+    if (colonIndex <= 0) continue;
+
+    const value = part.substring(colonIndex + 1);
+    fields.push({
+      key: part.substring(0, colonIndex).trim().toUpperCase(),
+      value: options.keepEscapes ? value : unescapeMeCardValue(value)
+    });
+  }
+
+  return fields;
+}
+
+export function isMeCard(content: string): boolean {
+  return /^MECARD:/i.test(content.trim());
+}
+
+export function isBizCard(content: string): boolean {
+  return /^BIZCARD:/i.test(content.trim());
+}
+
+function formattedName(given?: string, family?: string): string | undefined {
+  return [given, family].filter(Boolean).join(' ') || undefined;
+}
+
+// MeCard addresses are either free text or the seven comma-separated vCard ADR parts
+function parseMeCardAddress(rawValue: string): NonNullable<VCardContact['addresses']>[number] {
+  const parts = splitEscaped(rawValue, ',').map(unescapeMeCardValue);
+
+  if (parts.length === 7) {
+    const [poBox, extended, street, city, state, zip, country] = parts.map(part => part.trim() || undefined);
+    const cityZipLine = [zip, city].filter(Boolean).join(' ');
+    return {
+      type: 'default',
+      poBox,
+      extended,
+      street,
+      city,
+      state,
+      zip,
+      country,
+      formatted: [street, cityZipLine, state, country].filter(Boolean).join(', ') || undefined
+    };
+  }
+
+  const text = unescapeMeCardValue(rawValue).trim();
+  return { type: 'default', street: text || undefined, formatted: text || undefined };
+}
+
+/** Parses DoCoMo MECARD: contacts into the same shape as a vCard. */
+export function parseMeCard(content: string): VCardContact {
+  const contact: VCardContact = { format: 'mecard', unmappedFields: {} };
+
+  for (const { key, value } of parseMeCardFields(content, { keepEscapes: true })) {
+    const text = unescapeMeCardValue(value).trim();
+    if (!text) continue;
+
+    switch (key) {
+      case 'N': {
+        // "Family,Given"
+        const [family, given] = splitEscaped(value, ',').map(part => unescapeMeCardValue(part).trim() || undefined);
+        contact.name = { ...contact.name, family, given, formatted: formattedName(given, family) };
+        break;
+      }
+
+      case 'NICKNAME':
+        contact.nicknames = [...(contact.nicknames ?? []), text];
+        break;
+
+      case 'TEL':
+        contact.phones = [...(contact.phones ?? []), { type: 'phone', value: text }];
+        break;
+
+      case 'TEL-AV':
+        contact.phones = [...(contact.phones ?? []), { type: 'video', value: text }];
+        break;
+
+      case 'EMAIL':
+        contact.emails = [...(contact.emails ?? []), { type: 'default', value: text }];
+        break;
+
+      case 'ADR':
+        contact.addresses = [...(contact.addresses ?? []), parseMeCardAddress(value)];
+        break;
+
+      case 'URL':
+        contact.urls = [...(contact.urls ?? []), { type: 'default', value: text }];
+        break;
+
+      case 'ORG':
+        contact.organization = { ...contact.organization, name: text };
+        break;
+
+      case 'TITLE':
+        contact.organization = { ...contact.organization, title: text };
+        break;
+
+      case 'NOTE':
+        contact.notes = contact.notes ? `${contact.notes}\n${text}` : text;
+        break;
+
+      case 'BDAY':
+        contact.birthday = formatBirthday(text);
+        break;
+
+      default:
+        // SOUND holds the phonetic reading of the name
+        addUnmappedField(contact, key.toLowerCase(), text);
+    }
+  }
+
+  return contact;
+}
+
+/** Parses BIZCARD: business cards into the same shape as a vCard. */
+export function parseBizCard(content: string): VCardContact {
+  const contact: VCardContact = { format: 'bizcard', unmappedFields: {} };
+  let given: string | undefined;
+  let family: string | undefined;
+
+  for (const { key, value } of parseMeCardFields(content)) {
+    const text = value.trim();
+    if (!text) continue;
+
+    switch (key) {
+      case 'N':
+        given = text;
+        break;
+
+      case 'X':
+        family = text;
+        break;
+
+      case 'T':
+        contact.organization = { ...contact.organization, title: text };
+        break;
+
+      case 'C':
+        contact.organization = { ...contact.organization, name: text };
+        break;
+
+      case 'A':
+        contact.addresses = [...(contact.addresses ?? []), { type: 'work', street: text, formatted: text }];
+        break;
+
+      case 'B':
+        contact.phones = [...(contact.phones ?? []), { type: 'work', value: text }];
+        break;
+
+      case 'M':
+        contact.phones = [...(contact.phones ?? []), { type: 'mobile', value: text }];
+        break;
+
+      case 'F':
+        contact.phones = [...(contact.phones ?? []), { type: 'fax', value: text }];
+        break;
+
+      case 'E':
+        contact.emails = [...(contact.emails ?? []), { type: 'work', value: text }];
+        break;
+
+      default:
+        addUnmappedField(contact, key.toLowerCase(), text);
+    }
+  }
+
+  if (given || family) {
+    contact.name = { given, family, formatted: formattedName(given, family) };
+  }
+
+  return contact;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { OtpAccount, OtpAlgorithm, decodeBase32, generateHotp, generateTotp, parseOtpAuthUri } from './scan-otp';
+
+// RFC 4226 and RFC 6238 seeds: the ASCII digits "1234567890" repeated to 20, 32 and 64 bytes
+const SEEDS: Record<OtpAlgorithm, string> = {
+  SHA1: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ',
+  SHA256: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZA====',
+  SHA512: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNA='
+};
+
+function account(type: 'totp' | 'hotp', algorithm: OtpAlgorithm, digits: number): OtpAccount {
+  const parsed = parseOtpAuthUri(`otpauth://${type}/Test:alice?secret=${SEEDS[algorithm]}&algorithm=${algorithm}&digits=${digits}&counter=0`);
+  if (!parsed) throw new Error('Test account did not parse');
+  return parsed;
+}
+
+const text = (bytes: Uint8Array | null) => (bytes ? new TextDecoder().decode(bytes) : null);
+
+describe('decodeBase32', () => {
+  it.each([
+    ['MY======', 'f'],
+    ['MZXQ====', 'fo'],
+    ['MZXW6===', 'foo'],
+    ['MZXW6YQ=', 'foob'],
+    ['MZXW6YTB', 'fooba'],
+    ['MZXW6YTBOI======', 'foobar']
+  ])('decodes the RFC 4648 vector %s', (encoded, decoded) => {
+    expect(text(decodeBase32(encoded))).toBe(decoded);
+  });
+
+  it('accepts lower case, spaces and missing padding', () => {
+    expect(text(decodeBase32('mzxw 6ytb oi'))).toBe('foobar');
+  });
+
+  it.each(['', '====', 'MZXW6YT1', 'MZXW6YT8', 'MZXW6YT0', 'MZXW-6YT', 'M', 'MZX', 'MZXW6Y'])('rejects %j', value => {
+    expect(decodeBase32(value)).toBeNull();
+  });
+});
+
+describe('generateHotp', () => {
+  const expected = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489'];
+
+  it.each(expected.map((code, counter) => [counter, code]))('matches RFC 4226 for counter %i', (counter, code) => {
+    expect(generateHotp(account('hotp', 'SHA1', 6), counter)).toBe(code);
+  });
+});
+
+describe('generateTotp', () => {
+  it.each([
+    [59, '94287082', '46119246', '90693936'],
+    [1111111109, '07081804', '68084774', '25091201'],
+    [1111111111, '14050471', '67062674', '99943326'],
+    [1234567890, '89005924', '91819424', '93441116'],
+    [2000000000, '69279037', '90698825', '38618901'],
+    [20000000000, '65353130', '77737706', '47863826']
+  ])('matches RFC 6238 at %i seconds', (seconds, sha1Code, sha256Code, sha512Code) => {
+    expect(generateTotp(account('totp', 'SHA1', 8), seconds * 1000)?.code).toBe(sha1Code);
+    expect(generateTotp(account('totp', 'SHA256', 8), seconds * 1000)?.code).toBe(sha256Code);
+    expect(generateTotp(account('totp', 'SHA512', 8), seconds * 1000)?.code).toBe(sha512Code);
+  });
+
+  it('reports the seconds left in the period', () => {
+    expect(generateTotp(account('totp', 'SHA1', 6), 59_000)?.remaining).toBe(1);
+    expect(generateTotp(account('totp', 'SHA1', 6), 60_000)?.remaining).toBe(30);
+  });
+
+  it('gives no code for a secret that is not base32', () => {
+    expect(generateTotp({ ...account('totp', 'SHA1', 6), secret: 'NOT-BASE32!' }, 0)).toBeNull();
+  });
+});
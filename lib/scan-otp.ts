@@ -0,0 +1,180 @@
+import { hmac, sha1, sha256, sha512 } from './scan-hash';
+
+export type OtpAlgorithm = 'SHA1' | 'SHA256' | 'SHA512';
+
+export interface OtpAccount {
+  type: 'totp' | 'hotp';
+  issuer?: string;
+  account: string;
+  // Base32 secret, upper-cased with spaces and padding removed
+  secret: string;
+  secretValid: boolean;
+  algorithm: OtpAlgorithm;
+  digits: number;
+  // Seconds per TOTP code
+  period: number;
+  // HOTP only: counter for the next code
+  counter?: number;
+  // Parameters that were ignored or look wrong, for display
+  warnings: string[];
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const HASHES: Record<OtpAlgorithm, { hash: (data: Uint8Array) => Uint8Array; blockSize: number }> = {
+  SHA1: { hash: sha1, blockSize: 64 },
+  SHA256: { hash: sha256, blockSize: 64 },
+  SHA512: { hash: sha512, blockSize: 128 }
+};
+
+export function isOtpAuthUri(content: string): boolean {
+  return /^otpauth:\/\/(totp|hotp)\//i.test(content);
+}
+
+/** Decodes RFC 4648 base32, or returns null for characters outside the alphabet or an impossible length. */
+export function decodeBase32(value: string): Uint8Array | null {
+  const normalized = value.replace(/[\s=]/g, '').toUpperCase();
+  if (!normalized || [1, 3, 6].includes(normalized.length % 8)) return null;
+
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of normalized) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) return null;
+
+    buffer = ((buffer << 5) | index) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  return Uint8Array.from(bytes);
+}
+
+function decodeComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Parses a Key URI (otpauth://totp/Issuer:account?secret=...) as used by
+ * authenticator apps. Returns null when the URI has no secret.
+ */
+export function parseOtpAuthUri(content: string): OtpAccount | null {
+  const match = content.trim().match(/^otpauth:\/\/(totp|hotp)\/([^?#]*)(?:\?([^#]*))?/i);
+  if (!match) return null;
+
+  const [, type, path, query = ''] = match;
+  const params = new URLSearchParams(query);
+  const rawSecret = params.get('secret');
+  if (!rawSecret) return null;
+
+  const warnings: string[] = [];
+  const label = decodeComponent(path);
+  const separator = label.indexOf(':');
+  const labelIssuer = separator === -1 ? undefined : label.substring(0, separator).trim();
+  const account = (separator === -1 ? label : label.substring(separator + 1)).trim();
+  const issuer = params.get('issuer')?.trim() || labelIssuer || undefined;
+
+  if (labelIssuer && params.get('issuer') && labelIssuer !== params.get('issuer')) {
+    warnings.push(`The label names "${labelIssuer}" but the issuer is "${params.get('issuer')}".`);
+  }
+
+  const secret = rawSecret.replace(/[\s=]/g, '').toUpperCase();
+  const secretBytes = decodeBase32(secret);
+  if (!secretBytes) {
+    warnings.push('The secret is not valid base32.');
+  } else if (secretBytes.length < 10) {
+    warnings.push(`The secret is only ${secretBytes.length * 8} bits long; at least 80 bits are expected.`);
+  }
+
+  let algorithm: OtpAlgorithm = 'SHA1';
+  const requestedAlgorithm = params.get('algorithm')?.toUpperCase().replace('-', '');
+  if (requestedAlgorithm && requestedAlgorithm in HASHES) {
+    algorithm = requestedAlgorithm as OtpAlgorithm;
+  } else if (requestedAlgorithm) {
+    warnings.push(`Unknown algorithm "${params.get('algorithm')}"; SHA1 is used instead.`);
+  }
+
+  let digits = 6;
+  const requestedDigits = params.get('digits');
+  if (requestedDigits && /^\d+$/.test(requestedDigits) && Number(requestedDigits) >= 6 && Number(requestedDigits) <= 10) {
+    digits = Number(requestedDigits);
+  } else if (requestedDigits) {
+    warnings.push(`Unsupported digit count "${requestedDigits}"; 6 digits are used instead.`);
+  }
+
+  let period = 30;
+  const requestedPeriod = params.get('period');
+  if (requestedPeriod && /^\d+$/.test(requestedPeriod) && Number(requestedPeriod) > 0) {
+    period = Number(requestedPeriod);
+  } else if (requestedPeriod) {
+    warnings.push(`Invalid period "${requestedPeriod}"; 30 seconds are used instead.`);
+  }
+
+  const otpType = type.toLowerCase() as OtpAccount['type'];
+  let counter: number | undefined;
+  if (otpType === 'hotp') {
+    const requestedCounter = params.get('counter');
+    counter = requestedCounter && /^\d+$/.test(requestedCounter) ? Number(requestedCounter) : 0;
+    if (!requestedCounter) warnings.push('The counter is missing; counting starts at 0.');
+  }
+
+  return {
+    type: otpType,
+    issuer,
+    account,
+    secret,
+    secretValid: secretBytes !== null,
+    algorithm,
+    digits,
+    period,
+    counter,
+    warnings
+  };
+}
+
+/** Computes the HOTP code (RFC 4226) for a counter, or null when the secret does not decode. */
+export function generateHotp(account: OtpAccount, counter: number): string | null {
+  const key = decodeBase32(account.secret);
+  if (!key) return null;
+
+  const message = new Uint8Array(8);
+  const view = new DataView(message.buffer);
+  view.setUint32(0, Math.floor(counter / 0x100000000));
+  view.setUint32(4, counter >>> 0);
+
+  const { hash, blockSize } = HASHES[account.algorithm];
+  const digest = hmac(hash, blockSize, key, message);
+
+  // Dynamic truncation: the low nibble of the last byte picks four bytes
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = ((digest[offset] & 0x7f) << 24) | (digest[offset + 1] << 16) | (digest[offset + 2] << 8) | digest[offset + 3];
+  return String(binary % 10 ** account.digits).padStart(account.digits, '0');
+}
+
+/** Computes the current TOTP code (RFC 6238) and the seconds it stays valid. */
+export function generateTotp(account: OtpAccount, timestamp: number): { code: string; remaining: number } | null {
+  const seconds = Math.floor(timestamp / 1000);
+  const code = generateHotp(account, Math.floor(seconds / account.period));
+  if (code === null) return null;
+
+  return { code, remaining: account.period - (seconds % account.period) };
+}
+
+/** Splits a code into two halves for reading, e.g. "123 456". */
+export function formatOtpCode(code: string): string {
+  const half = Math.floor(code.length / 2);
+  return `${code.substring(0, half)} ${code.substring(half)}`;
+}
+
+export function describeOtpAccount(account: OtpAccount): string {
+  return account.issuer ? `${account.issuer} (${account.account})` : account.account;
+}
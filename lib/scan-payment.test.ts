@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { parseEpcPayment, parseSwissQrBill, validateCreditorReference, validateIban, validateQrReference } from './scan-payment';
+
+describe('validateIban', () => {
+  it.each([
+    'DE89370400440532013000',
+    'DE89 3704 0044 0532 0130 00',
+    'de89370400440532013000',
+    'GB82WEST12345698765432',
+    'FR1420041010050500013M02606',
+    'NL91ABNA0417164300',
+    'AT611904300234573201',
+    'CH9300762011623852957',
+    'CH4431999123000889012',
+    'NO9386011117947'
+  ])('accepts %s', iban => {
+    expect(validateIban(iban)).toBe(true);
+  });
+
+  it.each([
+    ['DE89370400440532013001', 'changed digit'],
+    ['DE98370400440532013000', 'swapped check digits'],
+    ['DE8937040044053201300', 'too short for DE'],
+    ['DE893704004405320130000', 'too long for DE'],
+    ['GB82WEST12345698765433', 'changed digit'],
+    ['XX00', 'no account number'],
+    ['', 'empty']
+  ])('rejects %s (%s)', iban => {
+    expect(validateIban(iban)).toBe(false);
+  });
+});
+
+describe('validateCreditorReference', () => {
+  it.each(['RF18539007547034', 'RF18 5390 0754 7034', 'RF18000000000539007547034'])('accepts %s', reference => {
+    expect(validateCreditorReference(reference)).toBe(true);
+  });
+
+  it.each(['RF19539007547034', 'RF18539007547035', 'RF1853900754703', 'XX18539007547034', 'RF18' + '1'.repeat(22)])('rejects %s', reference => {
+    expect(validateCreditorReference(reference)).toBe(false);
+  });
+});
+
+describe('validateQrReference', () => {
+  it.each(['210000000003139471430009017', '21 00000 00003 13947 14300 09017', '000000000000000000000000000'])('accepts %s', reference => {
+    expect(validateQrReference(reference)).toBe(true);
+  });
+
+  it.each(['210000000003139471430009018', '120000000003139471430009017', '21000000000313947143000901', 'RF18539007547034'])('rejects %s', reference => {
+    expect(validateQrReference(reference)).toBe(false);
+  });
+});
+
+function swissBill(iban: string, referenceType: string, reference = '') {
+  return [
+    'SPC', '0200', '1', iban,
+    'S', 'Robert Schneider AG', 'Rue du Lac', '1268', '2501', 'Biel', 'CH',
+    '', '', '', '', '', '', '',
+    '1949.75', 'CHF',
+    '', '', '', '', '', '', '',
+    referenceType, reference, 'Order of 15 June 2020', 'EPD'
+  ].join('\n');
+}
+
+describe('parseSwissQrBill', () => {
+  it('accepts a QR-IBAN with a QR reference', () => {
+    const bill = parseSwissQrBill(swissBill('CH4431999123000889012', 'QRR', '210000000003139471430009017'))!;
+    expect(bill).toMatchObject({ ibanValid: true, referenceType: 'QRR', referenceValid: true, amount: 1949.75, currency: 'CHF' });
+    expect(bill.referenceMismatch).toBeUndefined();
+  });
+
+  it('accepts a regular IBAN with a creditor reference or none', () => {
+    expect(parseSwissQrBill(swissBill('CH9300762011623852957', 'SCOR', 'RF18539007547034'))).toMatchObject({ referenceValid: true });
+    expect(parseSwissQrBill(swissBill('CH9300762011623852957', 'NON'))!.referenceMismatch).toBeUndefined();
+  });
+
+  it('reports wrong QR reference check digits without a mismatch', () => {
+    const bill = parseSwissQrBill(swissBill('CH4431999123000889012', 'QRR', '210000000003139471430009018'))!;
+    expect(bill.referenceValid).toBe(false);
+    expect(bill.referenceMismatch).toBeUndefined();
+  });
+
+  it('reports a QR reference on a regular IBAN as a mismatch, not a bad reference', () => {
+    const bill = parseSwissQrBill(swissBill('CH9300762011623852957', 'QRR', '210000000003139471430009017'))!;
+    expect(bill.referenceValid).toBe(true);
+    expect(bill.referenceMismatch).toMatch(/needs a QR-IBAN/);
+  });
+
+  it('reports a QR-IBAN without a QR reference as a mismatch', () => {
+    const bill = parseSwissQrBill(swissBill('CH4431999123000889012', 'SCOR', 'RF18539007547034'))!;
+    expect(bill.referenceValid).toBe(true);
+    expect(bill.referenceMismatch).toMatch(/needs a QR reference/);
+  });
+
+  it('flags a corrupted IBAN', () => {
+    expect(parseSwissQrBill(swissBill('CH4431999123000889013', 'QRR', '210000000003139471430009017'))!.ibanValid).toBe(false);
+  });
+});
+
+describe('parseEpcPayment', () => {
+  const epc = (iban: string, reference = '') =>
+    ['BCD', '002', '1', 'SCT', 'BFSWDE33BER', 'Wikimedia Foerdergesellschaft', iban, 'EUR123.45', '', reference, ''].join('\n');
+
+  it('checks the IBAN and creditor reference', () => {
+    expect(parseEpcPayment(epc('DE33100205000001194700', 'RF18539007547034'))).toMatchObject({
+      ibanValid: true,
+      amount: 123.45,
+      currency: 'EUR',
+      referenceType: 'SCOR',
+      referenceValid: true
+    });
+  });
+
+  it('flags a corrupted IBAN and reference', () => {
+    expect(parseEpcPayment(epc('DE33100205000001194701', 'RF19539007547034'))).toMatchObject({
+      ibanValid: false,
+      referenceValid: false
+    });
+  });
+});
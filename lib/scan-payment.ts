@@ -0,0 +1,264 @@
+export interface PaymentAddress {
+  name: string;
+  street?: string;
+  buildingNumber?: string;
+  postalCode?: string;
+  town?: string;
+  country?: string;
+  // Single-line summary for display and copying
+  formatted: string;
+}
+
+export interface PaymentDetails {
+  scheme: 'epc' | 'swiss-qr';
+  beneficiary: PaymentAddress;
+  iban: string;
+  ibanValid: boolean;
+  bic?: string;
+  amount?: number;
+  currency: string;
+  referenceType?: 'QRR' | 'SCOR' | 'NON';
+  reference?: string;
+  // Whether the reference's check digits are correct; absent when there is no reference
+  referenceValid?: boolean;
+  // Swiss QR-bill only: why the account and the reference type do not fit together
+  referenceMismatch?: string;
+  remittanceText?: string;
+  // EPC only: four-letter ISO 20022 purpose code
+  purpose?: string;
+  // Swiss QR-bill only
+  debtor?: PaymentAddress;
+  billInformation?: string;
+}
+
+// IBAN lengths by country, from the SWIFT IBAN registry
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BR: 29,
+  BY: 28, CH: 21, CR: 22, CY: 28, CZ: 24, DE: 22, DK: 18, DO: 28, EE: 20, EG: 29,
+  ES: 24, FI: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23, GL: 18, GR: 27, GT: 28,
+  HR: 21, HU: 28, IE: 22, IL: 23, IQ: 23, IS: 26, IT: 27, JO: 30, KW: 30, KZ: 20,
+  LB: 28, LC: 32, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MD: 24, ME: 22, MK: 19,
+  MR: 27, MT: 31, MU: 30, NL: 18, NO: 15, PK: 24, PL: 28, PS: 29, PT: 25, QA: 29,
+  RO: 24, RS: 22, SA: 24, SC: 31, SE: 24, SI: 19, SK: 24, SM: 27, ST: 25, SV: 28,
+  TL: 23, TN: 24, TR: 26, UA: 29, VA: 22, VG: 24, XK: 20
+};
+
+// EPC character set codes (line 3); unknown codes are read as UTF-8
+const EPC_CHARSETS: Record<string, string> = {
+  '1': 'utf-8', '2': 'iso-8859-1', '3': 'iso-8859-2', '4': 'iso-8859-4',
+  '5': 'iso-8859-5', '6': 'iso-8859-7', '7': 'iso-8859-10', '8': 'iso-8859-15'
+};
+
+export function isEpcPayment(content: string): boolean {
+  return /^BCD\r?\n00[12]\r?\n/.test(content);
+}
+
+export function isSwissQrBill(content: string): boolean {
+  return /^SPC\r?\n0[12]00\r?\n/.test(content);
+}
+
+export function normalizeIban(iban: string): string {
+  return iban.replace(/\s/g, '').toUpperCase();
+}
+
+export function formatIban(iban: string): string {
+  return normalizeIban(iban).replace(/(.{4})(?=.)/g, '$1 ');
+}
+
+// Remainder of a number written as digits and letters (A=10 ... Z=35), modulo 97
+function mod97(value: string): number {
+  let remainder = 0;
+
+  for (const char of value) {
+    const digits = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder;
+}
+
+export function validateIban(iban: string): boolean {
+  const normalized = normalizeIban(iban);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(normalized)) return false;
+
+  const expectedLength = IBAN_LENGTHS[normalized.substring(0, 2)];
+  if (expectedLength && normalized.length !== expectedLength) return false;
+
+  return mod97(normalized.substring(4) + normalized.substring(0, 4)) === 1;
+}
+
+/** Validates an ISO 11649 creditor reference such as "RF18 5390 0754 7034". */
+export function validateCreditorReference(reference: string): boolean {
+  const normalized = normalizeIban(reference);
+  if (!/^RF\d{2}[A-Z0-9]{1,21}$/.test(normalized)) return false;
+  return mod97(normalized.substring(4) + normalized.substring(0, 4)) === 1;
+}
+
+/** Validates a 27-digit Swiss QR reference with its modulo 10 recursive check digit. */
+export function validateQrReference(reference: string): boolean {
+  const digits = reference.replace(/\s/g, '');
+  if (!/^\d{27}$/.test(digits)) return false;
+
+  const table = [0, 9, 4, 6, 8, 2, 7, 1, 3, 5];
+  let carry = 0;
+  for (const digit of digits.substring(0, 26)) {
+    carry = table[(carry + Number(digit)) % 10];
+  }
+
+  return (10 - carry) % 10 === Number(digits[26]);
+}
+
+// QR-IBANs carry an institution ID between 30000 and 31999 and require a QR reference
+export function isQrIban(iban: string): boolean {
+  const normalized = normalizeIban(iban);
+  const institutionId = Number(normalized.substring(4, 9));
+  return /^(CH|LI)/.test(normalized) && institutionId >= 30000 && institutionId <= 31999;
+}
+
+function formatAddress(parts: Array<string | undefined>): string {
+  return parts.map(part => part?.trim()).filter(Boolean).join(', ');
+}
+
+function parseAmount(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const amount = parseFloat(value);
+  return isNaN(amount) ? undefined : amount;
+}
+
+/**
+ * Parses a SEPA credit transfer (EPC069-12 "GiroCode") payload. Returns null
+ * when the required beneficiary name or IBAN is missing.
+ */
+export function parseEpcPayment(content: string): PaymentDetails | null {
+  let lines = content.split(/\r?\n/);
+
+  // Undecodable bytes reach us one character per byte; re-read them in the declared character set
+  const charset = EPC_CHARSETS[lines[2]?.trim() ?? ''];
+  const codes = Array.from(content, char => char.charCodeAt(0));
+  if (charset && charset !== 'utf-8' && codes.some(code => code >= 0x80) && codes.every(code => code <= 0xff)) {
+    try {
+      lines = new TextDecoder(charset).decode(Uint8Array.from(codes)).split(/\r?\n/);
+    } catch {
+      // Keep the text as decoded
+    }
+  }
+
+  const field = (index: number) => lines[index]?.trim() || undefined;
+  const name = field(5);
+  const iban = field(6);
+  if (!name || !iban) return null;
+
+  const amountMatch = field(7)?.match(/^([A-Z]{3})(\d+(?:\.\d{1,2})?)$/);
+  const reference = field(9);
+
+  return {
+    scheme: 'epc',
+    beneficiary: { name, formatted: name },
+    iban: normalizeIban(iban),
+    ibanValid: validateIban(iban),
+    bic: field(4),
+    amount: parseAmount(amountMatch?.[2]),
+    currency: amountMatch?.[1] ?? 'EUR',
+    referenceType: reference ? 'SCOR' : undefined,
+    reference,
+    referenceValid: reference ? validateCreditorReference(reference) : undefined,
+    remittanceText: field(10),
+    purpose: field(8)
+  };
+}
+
+// Swiss addresses are either structured (S) or two free address lines (K)
+function parseSwissAddress(fields: Array<string | undefined>): PaymentAddress | undefined {
+  const [type, name, streetOrLine1, numberOrLine2, postalCode, town, country] = fields;
+  if (!name) return undefined;
+
+  if (type === 'K') {
+    return {
+      name,
+      street: streetOrLine1,
+      town: numberOrLine2,
+      country,
+      formatted: formatAddress([name, streetOrLine1, numberOrLine2, country])
+    };
+  }
+
+  const streetLine = [streetOrLine1, numberOrLine2].filter(Boolean).join(' ');
+  const townLine = [postalCode, town].filter(Boolean).join(' ');
+
+  return {
+    name,
+    street: streetOrLine1,
+    buildingNumber: numberOrLine2,
+    postalCode,
+    town,
+    country,
+    formatted: formatAddress([name, streetLine, townLine, country])
+  };
+}
+
+/**
+ * Parses a Swiss QR-bill (SPC version 2.x) payload. Returns null when the
+ * creditor account or name is missing.
+ */
+export function parseSwissQrBill(content: string): PaymentDetails | null {
+  const lines = content.split(/\r?\n/);
+  const field = (index: number) => lines[index]?.trim() || undefined;
+
+  const iban = field(3);
+  const beneficiary = parseSwissAddress(Array.from({ length: 7 }, (_, i) => field(4 + i)));
+  if (!iban || !beneficiary) return null;
+
+  const referenceType = field(27) as PaymentDetails['referenceType'];
+  const reference = field(28)?.replace(/\s/g, '');
+  let referenceValid: boolean | undefined;
+
+  if (reference && referenceType === 'QRR') {
+    referenceValid = validateQrReference(reference);
+  } else if (reference && referenceType === 'SCOR') {
+    referenceValid = validateCreditorReference(reference);
+  }
+
+  // QR-IBANs and QR references only ever come together
+  let referenceMismatch: string | undefined;
+  if (referenceType === 'QRR' && !isQrIban(iban)) {
+    referenceMismatch = 'A QR reference needs a QR-IBAN, but this is a regular IBAN';
+  } else if (referenceType !== 'QRR' && isQrIban(iban)) {
+    referenceMismatch = 'A QR-IBAN needs a QR reference, but this bill has none';
+  }
+
+  return {
+    scheme: 'swiss-qr',
+    beneficiary,
+    iban: normalizeIban(iban),
+    ibanValid: validateIban(iban),
+    amount: parseAmount(field(18)),
+    currency: field(19) ?? 'CHF',
+    referenceType: referenceType && ['QRR', 'SCOR', 'NON'].includes(referenceType) ? referenceType : undefined,
+    reference,
+    referenceValid,
+    referenceMismatch,
+    remittanceText: field(29),
+    debtor: parseSwissAddress(Array.from({ length: 7 }, (_, i) => field(20 + i))),
+    billInformation: field(31)
+  };
+}
+
+export function formatPaymentAmount(payment: PaymentDetails, locale?: string): string | null {
+  if (payment.amount === undefined) return null;
+
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency: payment.currency }).format(payment.amount);
+  } catch {
+    return `${payment.currency} ${payment.amount.toFixed(2)}`;
+  }
+}
+
+/** Splits a reference into readable groups: QR references from the right in fives, others in fours. */
+export function formatReference(reference: string, type?: PaymentDetails['referenceType']): string {
+  if (type === 'QRR') {
+    return reference.replace(/^(\d{2})(\d{5})(\d{5})(\d{5})(\d{5})(\d{5})$/, '$1 $2 $3 $4 $5 $6');
+  }
+  return reference.replace(/(.{4})(?=.)/g, '$1 ');
+}
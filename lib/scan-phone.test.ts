@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { parseContent, withPhoneRegion } from './scan-content-utils';
+import { getDialableNumber, parsePhoneNumber } from './scan-phone';
+
+describe('parsePhoneNumber', () => {
+  it('normalises valid numbers to E.164', () => {
+    const number = parsePhoneNumber('030 1234567', 'DE');
+    expect(number.valid).toBe(true);
+    expect(number.e164).toBe('+49301234567');
+    expect(getDialableNumber(number)).toBe('+49301234567');
+  });
+
+  it('leaves E.164 out for invalid numbers and dials the digits as written', () => {
+    const number = parsePhoneNumber('030 1234567', 'US');
+    expect(number.valid).toBe(false);
+    expect(number.e164).toBeUndefined();
+    expect(getDialableNumber(number)).toBe('0301234567');
+  });
+
+  it('dials invalid numbers as written', () => {
+    expect(getDialableNumber(parsePhoneNumber('030 1234567', 'US'))).toBe('0301234567');
+  });
+});
+
+describe('withPhoneRegion', () => {
+  it('rebuilds the actions from the number read in the picked region', () => {
+    const parsed = parseContent('tel:030 1234567');
+    if (parsed.type !== 'phone') throw new Error(`Expected a phone number, got ${parsed.type}`);
+
+    const reread = withPhoneRegion(parsed, 'DE');
+    expect(reread.actions.map(action => [action.type, action.value])).toEqual([
+      ['call', '+49301234567'],
+      ['sms', '+49301234567'],
+      ['copy', '+49301234567']
+    ]);
+    expect(reread.displayText).toBe('+49 30 1234567');
+  });
+});
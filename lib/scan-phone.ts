@@ -0,0 +1,311 @@
+export interface PhoneNumber {
+  // Input as scanned, without a tel: prefix
+  raw: string;
+  // "+4915123456789"; absent when the number is not valid
+  e164?: string;
+  callingCode?: string;
+  // ISO 3166 region code, e.g. "DE"
+  region?: string;
+  regionName?: string;
+  // National significant number, without trunk prefix
+  nationalNumber?: string;
+  extension?: string;
+  // Whether the length fits the region's numbering plan
+  valid: boolean;
+  // True when the number had no country code and was read in the default region
+  fromDefaultRegion: boolean;
+  national?: string;
+  international?: string;
+}
+
+interface RegionMetadata {
+  callingCode: string;
+  // Dialled before national numbers within the country, e.g. "0"
+  trunkPrefix?: string;
+  // Dialled before a country code when calling abroad; "00" when absent
+  internationalPrefix?: string;
+  // Lengths of the national significant number
+  lengths: number[];
+  // Shape of the national significant number where the plan restricts its digits
+  pattern?: RegExp;
+  // Digit groups for display, first matching pattern wins; the last group takes the remaining digits
+  groups: Array<[RegExp, number[]]>;
+}
+
+const ANY = /^/;
+
+// North American area codes cannot start with 0 or 1
+const NANP_PATTERN = /^[2-9]\d{9}$/;
+
+// Numbering plans of common regions; other regions are still recognised by calling code
+const REGIONS: Record<string, RegionMetadata> = {
+  US: { callingCode: '1', trunkPrefix: '1', internationalPrefix: '011', lengths: [10], pattern: NANP_PATTERN, groups: [[ANY, [3, 3, 4]]] },
+  CA: { callingCode: '1', trunkPrefix: '1', internationalPrefix: '011', lengths: [10], pattern: NANP_PATTERN, groups: [[ANY, [3, 3, 4]]] },
+  GB: { callingCode: '44', trunkPrefix: '0', lengths: [9, 10], groups: [[/^7/, [4, 6]], [/^2/, [2, 4, 4]], [/^1\d1|^11/, [3, 3, 4]], [ANY, [4, 6]]] },
+  IE: { callingCode: '353', trunkPrefix: '0', lengths: [7, 8, 9, 10], groups: [[/^1/, [1, 3, 4]], [ANY, [2, 3, 4]]] },
+  DE: { callingCode: '49', trunkPrefix: '0', lengths: [6, 7, 8, 9, 10, 11, 12, 13], groups: [[/^1[5-7]/, [3, 8]], [/^(30|40|69|89)/, [2, 8]], [/^[2-9]\d1/, [3, 8]], [ANY, [4, 8]]] },
+  AT: { callingCode: '43', trunkPrefix: '0', lengths: [4, 5, 6, 7, 8, 9, 10, 11, 12, 13], groups: [[/^1/, [1, 8]], [ANY, [3, 8]]] },
+  CH: { callingCode: '41', trunkPrefix: '0', lengths: [9], groups: [[ANY, [2, 3, 2, 2]]] },
+  LI: { callingCode: '423', lengths: [7], groups: [[ANY, [3, 2, 2]]] },
+  FR: { callingCode: '33', trunkPrefix: '0', lengths: [9], groups: [[ANY, [1, 2, 2, 2, 2]]] },
+  BE: { callingCode: '32', trunkPrefix: '0', lengths: [8, 9], groups: [[/^4\d{8}$/, [3, 2, 2, 2]], [/^[23]/, [1, 3, 2, 2]], [ANY, [2, 2, 2, 2]]] },
+  NL: { callingCode: '31', trunkPrefix: '0', lengths: [9], groups: [[/^6/, [1, 8]], [/^(10|20|30|33|35|40|43|45|46|50|53|55|58|70|71|72|73|74|75|76|77|78|79)/, [2, 7]], [ANY, [3, 6]]] },
+  LU: { callingCode: '352', lengths: [6, 7, 8, 9], groups: [[ANY, [3, 3, 3]]] },
+  IT: { callingCode: '39', lengths: [6, 7, 8, 9, 10, 11], groups: [[/^3/, [3, 7]], [/^0[26]/, [2, 8]], [ANY, [3, 7]]] },
+  ES: { callingCode: '34', lengths: [9], groups: [[ANY, [3, 2, 2, 2]]] },
+  PT: { callingCode: '351', lengths: [9], groups: [[ANY, [3, 3, 3]]] },
+  DK: { callingCode: '45', lengths: [8], groups: [[ANY, [2, 2, 2, 2]]] },
+  SE: { callingCode: '46', trunkPrefix: '0', lengths: [7, 8, 9, 10], groups: [[/^8/, [1, 3, 2, 2]], [ANY, [2, 3, 2, 2]]] },
+  NO: { callingCode: '47', lengths: [8], groups: [[ANY, [3, 2, 3]]] },
+  FI: { callingCode: '358', trunkPrefix: '0', lengths: [5, 6, 7, 8, 9, 10, 11, 12], groups: [[ANY, [2, 3, 7]]] },
+  IS: { callingCode: '354', lengths: [7, 9], groups: [[ANY, [3, 4]]] },
+  PL: { callingCode: '48', lengths: [9], groups: [[ANY, [3, 3, 3]]] },
+  CZ: { callingCode: '420', lengths: [9], groups: [[ANY, [3, 3, 3]]] },
+  SK: { callingCode: '421', trunkPrefix: '0', lengths: [9], groups: [[ANY, [3, 3, 3]]] },
+  HU: { callingCode: '36', trunkPrefix: '06', lengths: [8, 9], groups: [[/^1/, [1, 3, 4]], [/^(20|30|31|50|70)/, [2, 3, 4]], [ANY, [2, 3, 3]]] },
+  SI: { callingCode: '386', trunkPrefix: '0', lengths: [8], groups: [[ANY, [2, 3, 3]]] },
+  HR: { callingCode: '385', trunkPrefix: '0', lengths: [8, 9], groups: [[ANY, [2, 3, 4]]] },
+  RS: { callingCode: '381', trunkPrefix: '0', lengths: [8, 9], groups: [[ANY, [2, 3, 4]]] },
+  RO: { callingCode: '40', trunkPrefix: '0', lengths: [9], groups: [[ANY, [3, 3, 3]]] },
+  BG: { callingCode: '359', trunkPrefix: '0', lengths: [8, 9], groups: [[ANY, [3, 3, 3]]] },
+  GR: { callingCode: '30', lengths: [10], groups: [[ANY, [3, 3, 4]]] },
+  UA: { callingCode: '380', trunkPrefix: '0', lengths: [9], groups: [[ANY, [2, 3, 2, 2]]] },
+  RU: { callingCode: '7', trunkPrefix: '8', internationalPrefix: '810', lengths: [10], groups: [[ANY, [3, 3, 2, 2]]] },
+  KZ: { callingCode: '7', trunkPrefix: '8', internationalPrefix: '810', lengths: [10], groups: [[ANY, [3, 3, 2, 2]]] },
+  TR: { callingCode: '90', trunkPrefix: '0', lengths: [10], groups: [[ANY, [3, 3, 2, 2]]] },
+  IL: { callingCode: '972', trunkPrefix: '0', lengths: [8, 9], groups: [[/^5/, [2, 3, 4]], [ANY, [1, 3, 4]]] },
+  AE: { callingCode: '971', trunkPrefix: '0', lengths: [8, 9], groups: [[/^5/, [2, 3, 4]], [ANY, [1, 3, 4]]] },
+  SA: { callingCode: '966', trunkPrefix: '0', lengths: [9], groups: [[ANY, [2, 3, 4]]] },
+  EG: { callingCode: '20', trunkPrefix: '0', lengths: [9, 10], groups: [[/^1/, [2, 4, 4]], [ANY, [1, 4, 4]]] },
+  MA: { callingCode: '212', trunkPrefix: '0', lengths: [9], groups: [[ANY, [3, 6]]] },
+  NG: { callingCode: '234', trunkPrefix: '0', lengths: [8, 10], groups: [[ANY, [3, 3, 4]]] },
+  KE: { callingCode: '254', trunkPrefix: '0', lengths: [9], groups: [[ANY, [3, 6]]] },
+  ZA: { callingCode: '27', trunkPrefix: '0', lengths: [9], groups: [[ANY, [2, 3, 4]]] },
+  IN: { callingCode: '91', trunkPrefix: '0', lengths: [10], groups: [[ANY, [5, 5]]] },
+  PK: { callingCode: '92', trunkPrefix: '0', lengths: [9, 10], groups: [[ANY, [3, 7]]] },
+  BD: { callingCode: '880', trunkPrefix: '0', lengths: [10], groups: [[ANY, [4, 6]]] },
+  CN: { callingCode: '86', trunkPrefix: '0', lengths: [10, 11], groups: [[/^1/, [3, 4, 4]], [ANY, [2, 4, 4]]] },
+  HK: { callingCode: '852', lengths: [8], groups: [[ANY, [4, 4]]] },
+  TW: { callingCode: '886', trunkPrefix: '0', lengths: [8, 9], groups: [[/^9/, [3, 3, 3]], [ANY, [1, 4, 4]]] },
+  JP: { callingCode: '81', trunkPrefix: '0', internationalPrefix: '010', lengths: [9, 10], groups: [[/^[789]0/, [2, 4, 4]], [/^[36]/, [1, 4, 4]], [ANY, [2, 3, 4]]] },
+  KR: { callingCode: '82', trunkPrefix: '0', internationalPrefix: '001', lengths: [8, 9, 10], groups: [[/^1/, [2, 4, 4]], [/^2/, [1, 4, 4]], [ANY, [2, 3, 4]]] },
+  SG: { callingCode: '65', lengths: [8], groups: [[ANY, [4, 4]]] },
+  MY: { callingCode: '60', trunkPrefix: '0', lengths: [9, 10], groups: [[/^1/, [2, 4, 4]], [ANY, [1, 4, 4]]] },
+  TH: { callingCode: '66', trunkPrefix: '0', lengths: [8, 9], groups: [[/^[689]/, [2, 3, 4]], [ANY, [1, 3, 4]]] },
+  VN: { callingCode: '84', trunkPrefix: '0', lengths: [9, 10], groups: [[ANY, [2, 3, 5]]] },
+  ID: { callingCode: '62', trunkPrefix: '0', lengths: [9, 10, 11, 12], groups: [[ANY, [3, 4, 5]]] },
+  PH: { callingCode: '63', trunkPrefix: '0', lengths: [10], groups: [[ANY, [3, 3, 4]]] },
+  AU: { callingCode: '61', trunkPrefix: '0', internationalPrefix: '0011', lengths: [9], groups: [[/^4/, [3, 3, 3]], [ANY, [1, 4, 4]]] },
+  NZ: { callingCode: '64', trunkPrefix: '0', lengths: [8, 9, 10], groups: [[/^2/, [2, 3, 5]], [ANY, [1, 3, 4]]] },
+  BR: { callingCode: '55', trunkPrefix: '0', lengths: [10, 11], groups: [[/^\d{11}$/, [2, 5, 4]], [ANY, [2, 4, 4]]] },
+  MX: { callingCode: '52', lengths: [10], groups: [[/^(33|55|56|81)/, [2, 4, 4]], [ANY, [3, 3, 4]]] },
+  AR: { callingCode: '54', trunkPrefix: '0', lengths: [10], groups: [[ANY, [2, 4, 4]]] },
+  CL: { callingCode: '56', lengths: [9], groups: [[/^9/, [1, 4, 4]], [ANY, [2, 3, 4]]] },
+  CO: { callingCode: '57', lengths: [10], groups: [[ANY, [3, 3, 4]]] },
+  PE: { callingCode: '51', lengths: [8, 9], groups: [[/^9/, [3, 3, 3]], [ANY, [1, 3, 4]]] }
+};
+
+// Calling codes are prefix-free: 1 and 7 are the only one-digit codes, these the only two-digit ones
+const TWO_DIGIT_CALLING_CODES = new Set([
+  '20', '27', '30', '31', '32', '33', '34', '36', '39', '40', '41', '43', '44', '45', '46', '47', '48', '49',
+  '51', '52', '53', '54', '55', '56', '57', '58', '60', '61', '62', '63', '64', '65', '66', '81', '82', '84',
+  '86', '90', '91', '92', '93', '94', '95', '98'
+]);
+
+// Canadian area codes; other +1 numbers are attributed to the United States
+const CANADIAN_AREA_CODES = new Set([
+  '204', '226', '236', '249', '250', '263', '289', '306', '343', '354', '365', '367', '368', '382', '387',
+  '403', '416', '418', '428', '431', '437', '438', '450', '468', '474', '506', '514', '519', '548', '579',
+  '581', '584', '587', '604', '613', '639', '647', '672', '683', '705', '709', '742', '753', '778', '780',
+  '782', '807', '819', '825', '867', '873', '879', '902', '905'
+]);
+
+const REGION_STORAGE_KEY = 'prismio-phone-region';
+
+/** Regions with numbering plan metadata, sorted by display name. */
+export function getPhoneRegions(): string[] {
+  return Object.keys(REGIONS).sort((a, b) => getRegionName(a).localeCompare(getRegionName(b)));
+}
+
+export function getRegionName(region: string): string {
+  try {
+    return new Intl.DisplayNames(undefined, { type: 'region' }).of(region) ?? region;
+  } catch {
+    return region;
+  }
+}
+
+/**
+ * Region used for numbers written without a country code: the stored choice,
+ * else the browser language's region, else the United States.
+ */
+export function getDefaultPhoneRegion(): string {
+  if (typeof localStorage !== 'undefined') {
+    const stored = localStorage.getItem(REGION_STORAGE_KEY);
+    if (stored && REGIONS[stored]) return stored;
+  }
+
+  const languageRegion = typeof navigator !== 'undefined' ? navigator.language?.match(/-([A-Z]{2})\b/i)?.[1].toUpperCase() : undefined;
+  return languageRegion && REGIONS[languageRegion] ? languageRegion : 'US';
+}
+
+export function setDefaultPhoneRegion(region: string | null) {
+  if (typeof localStorage === 'undefined') return;
+  if (region) {
+    localStorage.setItem(REGION_STORAGE_KEY, region);
+  } else {
+    localStorage.removeItem(REGION_STORAGE_KEY);
+  }
+}
+
+function splitCallingCode(digits: string): [string, string] {
+  const length = /^[17]/.test(digits) ? 1 : TWO_DIGIT_CALLING_CODES.has(digits.substring(0, 2)) ? 2 : 3;
+  return [digits.substring(0, length), digits.substring(length)];
+}
+
+function regionForCallingCode(callingCode: string, nationalNumber: string): string | undefined {
+  if (callingCode === '1') return CANADIAN_AREA_CODES.has(nationalNumber.substring(0, 3)) ? 'CA' : 'US';
+  if (callingCode === '7') return /^[67]/.test(nationalNumber) ? 'KZ' : 'RU';
+  return Object.keys(REGIONS).find(region => REGIONS[region].callingCode === callingCode);
+}
+
+function groupDigits(nationalNumber: string, metadata?: RegionMetadata): string[] {
+  const sizes = metadata?.groups.find(([pattern]) => pattern.test(nationalNumber))?.[1] ?? [3, 3, 4];
+  const groups: string[] = [];
+  let position = 0;
+
+  sizes.forEach((size, index) => {
+    if (position >= nationalNumber.length) return;
+    const end = index === sizes.length - 1 ? nationalNumber.length : position + size;
+    groups.push(nationalNumber.substring(position, end));
+    position = end;
+  });
+
+  return groups;
+}
+
+function formatNumber(callingCode: string, nationalNumber: string, metadata: RegionMetadata | undefined, extension?: string) {
+  const groups = groupDigits(nationalNumber, metadata);
+  const suffix = extension ? ` ext. ${extension}` : '';
+
+  if (callingCode === '1' && groups.length === 3) {
+    return {
+      national: `(${groups[0]}) ${groups[1]}-${groups[2]}${suffix}`,
+      international: `+1 ${groups.join('-')}${suffix}`
+    };
+  }
+
+  // A "0" trunk prefix is written together with the first group, others stand apart
+  const trunk = metadata?.trunkPrefix;
+  const national = trunk === '0' ? `0${groups.join(' ')}` : trunk ? `${trunk} ${groups.join(' ')}` : groups.join(' ');
+
+  return {
+    national: national + suffix,
+    international: `+${callingCode} ${groups.join(' ')}${suffix}`
+  };
+}
+
+/**
+ * Normalises a phone number to E.164. Numbers without a country code are
+ * read in the default region; metadata covers common regions only, so
+ * validity and grouping are best-effort elsewhere.
+ */
+export function parsePhoneNumber(input: string, defaultRegion = getDefaultPhoneRegion()): PhoneNumber {
+  const raw = input.trim().replace(/^tel:/i, '');
+  let text = raw;
+
+  // RFC 3966 parameters and written extensions
+  let extension: string | undefined;
+  const extensionMatch = text.match(/(?:;ext=|\s*(?:ext\.?|extension|x|#)\s*)(\d{1,7})(?:;.*)?$/i);
+  if (extensionMatch) {
+    extension = extensionMatch[1];
+    text = text.substring(0, extensionMatch.index);
+  }
+  text = text.replace(/;.*$/, '');
+
+  // "+44 (0)20 ..." repeats the trunk prefix for domestic callers
+  text = text.replace(/\(0\)/g, '');
+
+  if (!/^[+\d\s\-().\/]+$/.test(text) || !/\d/.test(text)) {
+    return { raw, extension, valid: false, fromDefaultRegion: false };
+  }
+
+  let digits = text.replace(/\D/g, '');
+  const defaultMetadata = REGIONS[defaultRegion];
+  const internationalPrefix = defaultMetadata?.internationalPrefix ?? '00';
+  let international = text.trim().startsWith('+');
+
+  if (!international && digits.startsWith(internationalPrefix)) {
+    digits = digits.substring(internationalPrefix.length);
+    international = true;
+  } else if (!international && internationalPrefix !== '00' && digits.startsWith('00')) {
+    // Some regions also accept the common "00" prefix
+    digits = digits.substring(2);
+    international = true;
+  }
+
+  let callingCode: string;
+  let nationalNumber: string;
+  let region: string | undefined;
+  // Domestic numbers must carry the trunk prefix, except the optional "1" of North America
+  let missingTrunk = false;
+
+  if (international) {
+    [callingCode, nationalNumber] = splitCallingCode(digits);
+    region = regionForCallingCode(callingCode, nationalNumber);
+  } else {
+    if (!defaultMetadata) return { raw, extension, valid: false, fromDefaultRegion: false };
+
+    callingCode = defaultMetadata.callingCode;
+    nationalNumber = digits;
+    region = callingCode === '1' || callingCode === '7' ? regionForCallingCode(callingCode, digits) : defaultRegion;
+
+    const trunk = defaultMetadata.trunkPrefix;
+    const withoutTrunk = trunk && digits.startsWith(trunk) ? digits.substring(trunk.length) : digits;
+    // Only drop the trunk prefix when that leaves a number of plausible length
+    if (trunk && withoutTrunk !== digits && (defaultMetadata.lengths.includes(withoutTrunk.length) || !defaultMetadata.lengths.includes(digits.length))) {
+      nationalNumber = withoutTrunk;
+    } else if (trunk && callingCode !== '1') {
+      missingTrunk = true;
+    }
+  }
+
+  const metadata = region ? REGIONS[region] : undefined;
+  const valid = !missingTrunk && (metadata
+    ? metadata.lengths.includes(nationalNumber.length) && (!metadata.pattern || metadata.pattern.test(nationalNumber))
+    : nationalNumber.length >= 6 && callingCode.length + nationalNumber.length <= 15);
+
+  return {
+    raw,
+    e164: valid && nationalNumber ? `+${callingCode}${nationalNumber}` : undefined,
+    callingCode,
+    region,
+    regionName: region ? getRegionName(region) : undefined,
+    nationalNumber,
+    extension,
+    valid,
+    fromDefaultRegion: !international,
+    ...formatNumber(callingCode, nationalNumber, metadata, extension)
+  };
+}
+
+/** Whether free text is a phone number: international, or plausible in the default region. */
+export function isPhoneNumber(content: string, defaultRegion = getDefaultPhoneRegion()): boolean {
+  const text = content.trim();
+  if (!/^(\+|00)?[\d\s\-().\/]+((?:ext\.?|x|#)\s*\d{1,7})?$/i.test(text)) return false;
+
+  const digitCount = text.replace(/\D/g, '').length;
+  if (digitCount < 7 || digitCount > 17) return false;
+
+  const phone = parsePhoneNumber(text, defaultRegion);
+  if (text.startsWith('+')) return phone.valid;
+
+  // Bare digit runs are often dates or IDs, so national numbers need some length
+  return text.length >= 10 && phone.valid;
+}
+
+/** Value for tel: and sms: links: E.164 for valid numbers, else the digits as written. */
+export function getDialableNumber(phone: PhoneNumber): string {
+  const number = phone.e164 ?? phone.raw.replace(/[^\d+]/g, '');
+  return phone.extension ? `${number};ext=${phone.extension}` : number;
+}
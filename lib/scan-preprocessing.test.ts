@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProcessingStrategy, processImage, processImageMulti, processingStrategies } from './scan-preprocessing';
+import { loadStrategyStats } from './scan-strategy-registry';
+import { TestImageData, renderQrCodes } from './scan-test-images';
+
+const canvas = { getContext: () => ({}) } as unknown as HTMLCanvasElement;
+const directDetection = processingStrategies.filter(strategy => strategy.name === 'Direct Detection');
+
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => [...items.keys()][index] ?? null,
+    removeItem: key => items.delete(key),
+    setItem: (key, value) => items.set(key, value)
+  } as Storage;
+}
+
+beforeEach(() => {
+  vi.stubGlobal('ImageData', TestImageData);
+  vi.stubGlobal('localStorage', createStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('processImage', () => {
+  it('counts the winning strategy towards the adaptive ordering', async () => {
+    const result = await processImage(canvas, renderQrCodes([{ text: 'hello' }]), () => {}, { strategies: directDetection });
+
+    expect(result?.data).toBe('hello');
+    expect(loadStrategyStats()['Direct Detection']?.successes).toBe(1);
+  });
+
+  it('leaves the stats alone when recordStats is off', async () => {
+    const result = await processImage(canvas, renderQrCodes([{ text: 'hello' }]), () => {}, {
+      strategies: directDetection,
+      recordStats: false
+    });
+
+    expect(result?.data).toBe('hello');
+    expect(loadStrategyStats()).toEqual({});
+  });
+});
+
+describe('processImageMulti', () => {
+  it('finds every code in the image', async () => {
+    const image = renderQrCodes([{ text: 'first', x: 16, y: 16 }, { text: 'second', x: 220, y: 220 }]);
+    const results = await processImageMulti(canvas, image, () => {}, { strategies: directDetection });
+
+    expect(results.map(result => result.data).sort()).toEqual(['first', 'second']);
+  });
+
+  it('keeps identical codes printed in different places', async () => {
+    const image = renderQrCodes([{ text: 'same', x: 16, y: 16 }, { text: 'same', x: 220, y: 220 }]);
+    const results = await processImageMulti(canvas, image, () => {}, { strategies: directDetection });
+
+    expect(results.map(result => result.data)).toEqual(['same', 'same']);
+  });
+
+  it('stops when a code is found again at the same place', async () => {
+    const image = renderQrCodes([{ text: 'hello' }]);
+    // Ignores the mask, like a strategy that re-finds a code the mask did not fully cover
+    const unmasked: ProcessingStrategy = { name: 'Unmasked', progress: 50, fn: () => image };
+    const results = await processImageMulti(canvas, image, () => {}, { strategies: [unmasked] });
+
+    expect(results).toHaveLength(1);
+  });
+});
@@ -1,177 +1,123 @@
-import jsQR from 'jsqr';
-
-export interface ProcessingStrategy {
-  name: string;
-  progress: number;
-  fn: (imageData: ImageData) => ImageData;
+import { decodeWithStrategy, ProcessingStrategy, QRResult } from './scan-strategies';
+import { getStrategyPlan, recordStrategySuccess } from './scan-strategy-registry';
+import { canRunInWorker, isWorkerSupported, scanInWorker } from './scan-worker-client';
+
+export { preprocessingStrategies, processingStrategies, searchStrategies, extendedStrategies } from './scan-strategies';
+export type { ProcessingStrategy, QRResult } from './scan-strategies';
+
+export interface QRBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
-export interface QRResult {
-  data: string;
-  location: {
-    topLeftCorner: { x: number; y: number };
-    topRightCorner: { x: number; y: number };
-    bottomLeftCorner: { x: number; y: number };
-    bottomRightCorner: { x: number; y: number };
-  };
+export interface ProcessImageOptions {
+  strategies?: ProcessingStrategy[];
+  signal?: AbortSignal;
+  // Count the winning strategy towards the adaptive ordering; off for images the app drew itself
+  recordStats?: boolean;
 }
 
-export const preprocessingStrategies: Record<string, (imageData: ImageData) => ImageData> = {
-  enhancedContrast: (imageData: ImageData): ImageData => {
-    const data = new Uint8ClampedArray(imageData.data);
-    const contrast = 1.5;
-    const factor = (259 * (contrast + 255)) / (255 * (259 - contrast));
-
-    for (let i = 0; i < data.length; i += 4) {
-      data[i] = Math.min(255, Math.max(0, factor * (data[i] - 128) + 128));
-      data[i + 1] = Math.min(255, Math.max(0, factor * (data[i + 1] - 128) + 128));
-      data[i + 2] = Math.min(255, Math.max(0, factor * (data[i + 2] - 128) + 128));
-    }
-
-    return new ImageData(data, imageData.width, imageData.height);
-  },
-
-  adaptiveHistogram: (imageData: ImageData): ImageData => {
-    const data = new Uint8ClampedArray(imageData.data);
-    
-    for (let i = 0; i < data.length; i += 4) {
-      const gray = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
-      data[i] = gray;
-      data[i + 1] = gray;
-      data[i + 2] = gray;
-    }
+export interface MultiScanOptions extends ProcessImageOptions {
+  maxCodes?: number;
+}
 
-    return new ImageData(data, imageData.width, imageData.height);
-  },
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
 
-  binaryThreshold: (imageData: ImageData): ImageData => {
-    const data = new Uint8ClampedArray(imageData.data);
-    const pixels = data.length / 4;
-    let sum = 0;
+function abortError(): DOMException {
+  return new DOMException('Scan was cancelled', 'AbortError');
+}
 
-    for (let i = 0; i < data.length; i += 4) {
-      const gray = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
-      sum += gray;
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
     }
 
-    const threshold = sum / pixels;
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
 
-    for (let i = 0; i < data.length; i += 4) {
-      const gray = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
-      const binary = gray > threshold ? 255 : 0;
-      data[i] = binary;
-      data[i + 1] = binary;
-      data[i + 2] = binary;
-    }
+/**
+ * Runs the strategies in a Web Worker so large images do not block the UI,
+ * falling back to the main thread where workers are unavailable or a strategy
+ * cannot be sent to the worker.
+ */
+export async function processImage(
+  canvas: HTMLCanvasElement,
+  imageData: ImageData,
+  onProgress: (progress: number, strategy: string) => void,
+  options: ProcessImageOptions = {}
+): Promise<QRResult | null> {
+  const { strategies = getStrategyPlan(), signal, recordStats = true } = options;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+  if (signal?.aborted) throw abortError();
 
-    return new ImageData(data, imageData.width, imageData.height);
-  },
-
-  sharpening: (imageData: ImageData): ImageData => {
-    const data = new Uint8ClampedArray(imageData.data);
-    const width = imageData.width;
-    const height = imageData.height;
-    const kernel = [-1, -1, -1, -1, 9, -1, -1, -1, -1];
-
-    for (let y = 1; y < height - 1; y++) {
-      for (let x = 1; x < width - 1; x++) {
-        let r = 0, g = 0, b = 0;
-        
-        for (let ky = -1; ky <= 1; ky++) {
-          for (let kx = -1; kx <= 1; kx++) {
-            const idx = ((y + ky) * width + (x + kx)) * 4;
-            const weight = kernel[(ky + 1) * 3 + (kx + 1)];
-            r += data[idx] * weight;
-            g += data[idx + 1] * weight;
-            b += data[idx + 2] * weight;
-          }
-        }
-
-        const idx = (y * width + x) * 4;
-        data[idx] = Math.min(255, Math.max(0, r));
-        data[idx + 1] = Math.min(255, Math.max(0, g));
-        data[idx + 2] = Math.min(255, Math.max(0, b));
-      }
-    }
+  let result: QRResult | null = null;
+  let scanned = false;
 
-    return new ImageData(data, imageData.width, imageData.height);
-  },
+  if (isWorkerSupported() && canRunInWorker(strategies)) {
+    const job = scanInWorker(imageData, strategies, onProgress);
+    const onAbort = () => job.cancel();
+    signal?.addEventListener('abort', onAbort, { once: true });
 
-  colorInversion: (imageData: ImageData): ImageData => {
-    const data = new Uint8ClampedArray(imageData.data);
-    
-    for (let i = 0; i < data.length; i += 4) {
-      data[i] = 255 - data[i];
-      data[i + 1] = 255 - data[i + 1];
-      data[i + 2] = 255 - data[i + 2];
+    try {
+      result = await job.promise;
+      scanned = true;
+    } catch (error) {
+      if (signal?.aborted || isAbortError(error)) throw abortError();
+      console.warn('Worker scan failed, falling back to main thread:', error);
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
     }
+  }
 
-    return new ImageData(data, imageData.width, imageData.height);
-  },
-
-  morphological: (imageData: ImageData): ImageData => {
-    const data = new Uint8ClampedArray(imageData.data);
-    const width = imageData.width;
-    const height = imageData.height;
-    const temp = new Uint8ClampedArray(data);
-
-    for (let y = 1; y < height - 1; y++) {
-      for (let x = 1; x < width - 1; x++) {
-        let minVal = 255;
-        
-        for (let dy = -1; dy <= 1; dy++) {
-          for (let dx = -1; dx <= 1; dx++) {
-            const idx = ((y + dy) * width + (x + dx)) * 4;
-            const gray = Math.round(0.299 * temp[idx] + 0.587 * temp[idx + 1] + 0.114 * temp[idx + 2]);
-            minVal = Math.min(minVal, gray);
-          }
-        }
-
-        const idx = (y * width + x) * 4;
-        data[idx] = minVal;
-        data[idx + 1] = minVal;
-        data[idx + 2] = minVal;
-      }
-    }
+  if (!scanned) {
+    result = await processImageOnMainThread(imageData, onProgress, { ...options, strategies });
+  }
 
-    return new ImageData(data, imageData.width, imageData.height);
+  if (recordStats && result?.strategy) {
+    recordStrategySuccess(result.strategy);
   }
-};
-
-export const processingStrategies: ProcessingStrategy[] = [
-  { name: "Direct Detection", progress: 65, fn: (data) => data },
-  { name: "Enhanced Contrast", progress: 70, fn: preprocessingStrategies.enhancedContrast },
-  { name: "Adaptive Histogram", progress: 75, fn: preprocessingStrategies.adaptiveHistogram },
-  { name: "Binary Threshold", progress: 80, fn: preprocessingStrategies.binaryThreshold },
-  { name: "Sharpening", progress: 85, fn: preprocessingStrategies.sharpening },
-  { name: "Color Inversion", progress: 90, fn: preprocessingStrategies.colorInversion },
-  { name: "Morphological", progress: 95, fn: preprocessingStrategies.morphological },
-];
 
-export async function processImage(
-  canvas: HTMLCanvasElement,
+  return result;
+}
+
+export async function processImageOnMainThread(
   imageData: ImageData,
-  onProgress: (progress: number, strategy: string) => void
+  onProgress: (progress: number, strategy: string) => void,
+  options: ProcessImageOptions = {}
 ): Promise<QRResult | null> {
-  const ctx = canvas.getContext('2d');
-  if (!ctx) throw new Error('Canvas context not available');
+  const { strategies = getStrategyPlan(), signal } = options;
+
+  for (const strategy of strategies) {
+    if (signal?.aborted) throw abortError();
 
-  for (const strategy of processingStrategies) {
     try {
       onProgress(strategy.progress, strategy.name);
       
-      const processedData = strategy.fn(imageData);
-      const result = jsQR(processedData.data, processedData.width, processedData.height);
-      
+      const result = decodeWithStrategy(imageData, strategy);
       if (result) {
-        return {
-          data: result.data,
-          location: result.location
-        };
+        return result;
       }
       
-      await new Promise(resolve => setTimeout(resolve, 50));
+      // Yield so the progress update can paint before the next strategy
+      await delay(0, signal);
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.warn(`Strategy ${strategy.name} failed:`, error);
       continue;
     }
@@ -180,8 +126,142 @@ export async function processImage(
   return null;
 }
 
-export function createCanvasFromFile(file: File): Promise<{ canvas: HTMLCanvasElement; imageData: ImageData }> {
+export function getLocationBounds(location: QRResult['location']): QRBounds {
+  const points = [
+    location.topLeftCorner,
+    location.topRightCorner,
+    location.bottomRightCorner,
+    location.bottomLeftCorner
+  ];
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+
+  return {
+    x: Math.round(x),
+    y: Math.round(y),
+    width: Math.round(Math.max(...xs) - x),
+    height: Math.round(Math.max(...ys) - y)
+  };
+}
+
+export function describeRegion(bounds: QRBounds, imageWidth: number, imageHeight: number): string {
+  const centerX = (bounds.x + bounds.width / 2) / imageWidth;
+  const centerY = (bounds.y + bounds.height / 2) / imageHeight;
+  const vertical = centerY < 1 / 3 ? 'top' : centerY > 2 / 3 ? 'bottom' : 'middle';
+  const horizontal = centerX < 1 / 3 ? 'left' : centerX > 2 / 3 ? 'right' : 'center';
+
+  if (vertical === 'middle' && horizontal === 'center') return 'center';
+  if (vertical === 'middle') return `middle ${horizontal}`;
+  return `${vertical} ${horizontal}`;
+}
+
+/**
+ * Paints the detected code white so the next detection pass can find other codes.
+ * The quad is grown around its center to cover the quiet zone and finder patterns.
+ */
+export function maskLocation(imageData: ImageData, location: QRResult['location'], margin = 0.15): ImageData {
+  const data = new Uint8ClampedArray(imageData.data);
+  const width = imageData.width;
+  const height = imageData.height;
+  const corners = [
+    location.topLeftCorner,
+    location.topRightCorner,
+    location.bottomRightCorner,
+    location.bottomLeftCorner
+  ];
+
+  const centerX = corners.reduce((sum, p) => sum + p.x, 0) / 4;
+  const centerY = corners.reduce((sum, p) => sum + p.y, 0) / 4;
+  const quad = corners.map(p => ({
+    x: centerX + (p.x - centerX) * (1 + margin * 2),
+    y: centerY + (p.y - centerY) * (1 + margin * 2)
+  }));
+
+  const minX = Math.max(0, Math.floor(Math.min(...quad.map(p => p.x))));
+  const maxX = Math.min(width - 1, Math.ceil(Math.max(...quad.map(p => p.x))));
+  const minY = Math.max(0, Math.floor(Math.min(...quad.map(p => p.y))));
+  const maxY = Math.min(height - 1, Math.ceil(Math.max(...quad.map(p => p.y))));
+
+  const isInside = (x: number, y: number) => {
+    let sign = 0;
+    for (let i = 0; i < 4; i++) {
+      const a = quad[i];
+      const b = quad[(i + 1) % 4];
+      const cross = (b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x);
+      if (cross === 0) continue;
+      const current = cross > 0 ? 1 : -1;
+      if (sign === 0) sign = current;
+      else if (sign !== current) return false;
+    }
+    return true;
+  };
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (!isInside(x, y)) continue;
+      const idx = (y * width + x) * 4;
+      data[idx] = 255;
+      data[idx + 1] = 255;
+      data[idx + 2] = 255;
+    }
+  }
+
+  return new ImageData(data, width, height);
+}
+
+function boundsOverlap(a: QRBounds, b: QRBounds): boolean {
+  return a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+}
+
+/**
+ * Keeps scanning after each hit, masking out every decoded code and re-running
+ * the strategies until nothing new is found or maxCodes is reached.
+ */
+export async function processImageMulti(
+  canvas: HTMLCanvasElement,
+  imageData: ImageData,
+  onProgress: (progress: number, strategy: string) => void,
+  options: MultiScanOptions = {}
+): Promise<QRResult[]> {
+  const maxCodes = options.maxCodes ?? 10;
+  const results: QRResult[] = [];
+  let working = imageData;
+
+  while (results.length < maxCodes) {
+    const pass = results.length + 1;
+    const result = await processImage(
+      canvas,
+      working,
+      (progress, strategy) => onProgress(progress, pass > 1 ? `${strategy} (code ${pass})` : strategy),
+      options
+    );
+
+    if (!result) break;
+
+    // A skewed code or a tile strategy can find the same code again past its mask
+    const bounds = getLocationBounds(result.location);
+    const isDuplicate = results.some(found => found.data === result.data && boundsOverlap(getLocationBounds(found.location), bounds));
+    if (isDuplicate) break;
+
+    results.push(result);
+    working = maskLocation(working, result.location);
+  }
+
+  return results;
+}
+
+export function createCanvasFromFile(
+  file: File,
+  signal?: AbortSignal
+): Promise<{ canvas: HTMLCanvasElement; imageData: ImageData }> {
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
     const img = new Image();
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d');
@@ -191,7 +271,28 @@ export function createCanvasFromFile(file: File): Promise<{ canvas: HTMLCanvasEl
       return;
     }
 
+    const objectUrl = URL.createObjectURL(file);
+
+    const cleanup = () => {
+      URL.revokeObjectURL(objectUrl);
+      img.onload = null;
+      img.onerror = null;
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    const onAbort = () => {
+      cleanup();
+      img.src = '';
+      // Release the backing store of the canvas right away
+      canvas.width = 0;
+      canvas.height = 0;
+      reject(abortError());
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     img.onload = () => {
+      cleanup();
       canvas.width = img.width;
       canvas.height = img.height;
       ctx.drawImage(img, 0, 0);
@@ -204,8 +305,11 @@ export function createCanvasFromFile(file: File): Promise<{ canvas: HTMLCanvasEl
       }
     };
 
-    img.onerror = () => reject(new Error('Failed to load image'));
-    img.src = URL.createObjectURL(file);
+    img.onerror = () => {
+      cleanup();
+      reject(new Error('Failed to load image'));
+    };
+    img.src = objectUrl;
   });
 }
 
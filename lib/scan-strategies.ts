@@ -0,0 +1,234 @@
+import jsQR from 'jsqr';
+import { GeometricTransform, mapLocation, pyramidTransform, rotationTransform, tileTransform } from './scan-geometry';
+import { clahe, niblackThreshold, otsuThreshold, sauvolaThreshold } from './scan-thresholding';
+
+export interface ProcessingStrategy {
+  name: string;
+  // Short name for progress chips
+  label?: string;
+  progress: number;
+  fn: (imageData: ImageData) => ImageData;
+  // Applied before fn; decoded locations are mapped back to original image coordinates
+  transform?: GeometricTransform;
+  // Built-in strategy names a composed strategy runs in order, so a worker can rebuild it
+  chain?: string[];
+}
+
+export interface QRResult {
+  data: string;
+  location: {
+    topLeftCorner: { x: number; y: number };
+    topRightCorner: { x: number; y: number };
+    bottomLeftCorner: { x: number; y: number };
+    bottomRightCorner: { x: number; y: number };
+  };
+  // Name of the strategy that decoded the code
+  strategy?: string;
+}
+
+export const preprocessingStrategies: Record<string, (imageData: ImageData) => ImageData> = {
+  enhancedContrast: (imageData: ImageData): ImageData => {
+    const data = new Uint8ClampedArray(imageData.data);
+    const contrast = 1.5;
+    const factor = (259 * (contrast + 255)) / (255 * (259 - contrast));
+
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = Math.min(255, Math.max(0, factor * (data[i] - 128) + 128));
+      data[i + 1] = Math.min(255, Math.max(0, factor * (data[i + 1] - 128) + 128));
+      data[i + 2] = Math.min(255, Math.max(0, factor * (data[i + 2] - 128) + 128));
+    }
+
+    return new ImageData(data, imageData.width, imageData.height);
+  },
+
+  adaptiveHistogram: (imageData: ImageData): ImageData => {
+    const data = new Uint8ClampedArray(imageData.data);
+    
+    for (let i = 0; i < data.length; i += 4) {
+      const gray = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+      data[i] = gray;
+      data[i + 1] = gray;
+      data[i + 2] = gray;
+    }
+
+    return new ImageData(data, imageData.width, imageData.height);
+  },
+
+  binaryThreshold: (imageData: ImageData): ImageData => {
+    const data = new Uint8ClampedArray(imageData.data);
+    const pixels = data.length / 4;
+    let sum = 0;
+
+    for (let i = 0; i < data.length; i += 4) {
+      const gray = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+      sum += gray;
+    }
+
+    const threshold = sum / pixels;
+
+    for (let i = 0; i < data.length; i += 4) {
+      const gray = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+      const binary = gray > threshold ? 255 : 0;
+      data[i] = binary;
+      data[i + 1] = binary;
+      data[i + 2] = binary;
+    }
+
+    return new ImageData(data, imageData.width, imageData.height);
+  },
+
+  sharpening: (imageData: ImageData): ImageData => {
+    const data = new Uint8ClampedArray(imageData.data);
+    const width = imageData.width;
+    const height = imageData.height;
+    const kernel = [-1, -1, -1, -1, 9, -1, -1, -1, -1];
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        let r = 0, g = 0, b = 0;
+        
+        for (let ky = -1; ky <= 1; ky++) {
+          for (let kx = -1; kx <= 1; kx++) {
+            const idx = ((y + ky) * width + (x + kx)) * 4;
+            const weight = kernel[(ky + 1) * 3 + (kx + 1)];
+            r += data[idx] * weight;
+            g += data[idx + 1] * weight;
+            b += data[idx + 2] * weight;
+          }
+        }
+
+        const idx = (y * width + x) * 4;
+        data[idx] = Math.min(255, Math.max(0, r));
+        data[idx + 1] = Math.min(255, Math.max(0, g));
+        data[idx + 2] = Math.min(255, Math.max(0, b));
+      }
+    }
+
+    return new ImageData(data, imageData.width, imageData.height);
+  },
+
+  otsuThreshold,
+
+  sauvolaThreshold: sauvolaThreshold(),
+
+  niblackThreshold: niblackThreshold(),
+
+  clahe: clahe(),
+
+  colorInversion: (imageData: ImageData): ImageData => {
+    const data = new Uint8ClampedArray(imageData.data);
+    
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = 255 - data[i];
+      data[i + 1] = 255 - data[i + 1];
+      data[i + 2] = 255 - data[i + 2];
+    }
+
+    return new ImageData(data, imageData.width, imageData.height);
+  },
+
+  morphological: (imageData: ImageData): ImageData => {
+    const data = new Uint8ClampedArray(imageData.data);
+    const width = imageData.width;
+    const height = imageData.height;
+    const temp = new Uint8ClampedArray(data);
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        let minVal = 255;
+        
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const idx = ((y + dy) * width + (x + dx)) * 4;
+            const gray = Math.round(0.299 * temp[idx] + 0.587 * temp[idx + 1] + 0.114 * temp[idx + 2]);
+            minVal = Math.min(minVal, gray);
+          }
+        }
+
+        const idx = (y * width + x) * 4;
+        data[idx] = minVal;
+        data[idx + 1] = minVal;
+        data[idx + 2] = minVal;
+      }
+    }
+
+    return new ImageData(data, imageData.width, imageData.height);
+  }
+};
+
+export const processingStrategies: ProcessingStrategy[] = [
+  { name: "Direct Detection", label: "Direct", progress: 55, fn: (data) => data },
+  { name: "Enhanced Contrast", label: "Contrast", progress: 59, fn: preprocessingStrategies.enhancedContrast },
+  { name: "Adaptive Histogram", label: "Histogram", progress: 63, fn: preprocessingStrategies.adaptiveHistogram },
+  { name: "Binary Threshold", label: "Binary", progress: 67, fn: preprocessingStrategies.binaryThreshold },
+  { name: "Otsu Threshold", label: "Otsu", progress: 71, fn: preprocessingStrategies.otsuThreshold },
+  { name: "Sauvola Threshold", label: "Sauvola", progress: 75, fn: preprocessingStrategies.sauvolaThreshold },
+  { name: "Niblack Threshold", label: "Niblack", progress: 79, fn: preprocessingStrategies.niblackThreshold },
+  { name: "CLAHE", label: "CLAHE", progress: 83, fn: preprocessingStrategies.clahe },
+  { name: "Sharpening", label: "Sharpen", progress: 87, fn: preprocessingStrategies.sharpening },
+  { name: "Color Inversion", label: "Invert", progress: 91, fn: preprocessingStrategies.colorInversion },
+  { name: "Morphological", label: "Morph", progress: 95, fn: preprocessingStrategies.morphological },
+];
+
+// Search layer for small, rotated or skewed codes, tried after the pixel strategies
+export const searchStrategies: ProcessingStrategy[] = [
+  { name: "Downscaled Pyramid", label: "Downscale", progress: 95, fn: (data) => data, transform: pyramidTransform([0.5, 0.25]) },
+  { name: "Upscaled", label: "Upscale", progress: 95, fn: (data) => data, transform: pyramidTransform([2]) },
+  { name: "High-Contrast Tiles", label: "Tiles", progress: 95, fn: preprocessingStrategies.enhancedContrast, transform: tileTransform() },
+  { name: "Rotated 90°", label: "Rotate 90°", progress: 95, fn: (data) => data, transform: rotationTransform([90]) },
+  { name: "Rotated 45°", label: "Rotate 45°", progress: 95, fn: (data) => data, transform: rotationTransform([45, -45]) },
+];
+
+export const extendedStrategies: ProcessingStrategy[] = [...processingStrategies, ...searchStrategies];
+
+export function findBuiltInStrategy(name: string): ProcessingStrategy | undefined {
+  return extendedStrategies.find(strategy => strategy.name === name);
+}
+
+// True when a worker can rebuild the strategy from its name or chain alone
+export function isBuiltInStrategy(strategy: ProcessingStrategy): boolean {
+  if (strategy.chain) return true;
+  const builtIn = findBuiltInStrategy(strategy.name);
+  return !!builtIn && builtIn.fn === strategy.fn && builtIn.transform === strategy.transform;
+}
+
+/**
+ * Chains strategies so each step's output feeds the next. Only the first step
+ * may carry a geometric transform, since later steps see the transformed image.
+ */
+export function chainStrategies(name: string, steps: ProcessingStrategy[]): ProcessingStrategy {
+  if (steps.length === 0) throw new Error(`Strategy chain "${name}" needs at least one step`);
+  if (steps.slice(1).some(step => step.transform)) {
+    throw new Error(`Strategy chain "${name}" can only use a transform in its first step`);
+  }
+
+  return {
+    name,
+    label: steps.map(step => step.label ?? step.name).join(' → '),
+    progress: 0,
+    fn: (imageData) => steps.reduce((data, step) => step.fn(data), imageData),
+    transform: steps[0].transform,
+    chain: steps.every(isBuiltInStrategy) ? steps.flatMap(step => step.chain ?? [step.name]) : undefined
+  };
+}
+
+export function decodeWithStrategy(imageData: ImageData, strategy: ProcessingStrategy): QRResult | null {
+  const candidates = strategy.transform
+    ? strategy.transform.apply(imageData)
+    : [{ imageData, mapPoint: undefined }];
+
+  for (const candidate of candidates) {
+    const processedData = strategy.fn(candidate.imageData);
+    const result = jsQR(processedData.data, processedData.width, processedData.height);
+
+    if (result) {
+      return {
+        data: result.data,
+        location: candidate.mapPoint ? mapLocation(result.location, candidate.mapPoint) : result.location,
+        strategy: strategy.name
+      };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,150 @@
+import { chainStrategies, processingStrategies, ProcessingStrategy, searchStrategies } from './scan-strategies';
+
+export type StrategyKind = 'preprocess' | 'search';
+
+export interface StrategyDefinition {
+  name: string;
+  label?: string;
+  fn: ProcessingStrategy['fn'];
+  transform?: ProcessingStrategy['transform'];
+  chain?: string[];
+}
+
+export interface RegisterStrategyOptions {
+  // Search strategies always run after preprocessing ones
+  kind?: StrategyKind;
+  replace?: boolean;
+}
+
+export interface StrategyPlanOptions {
+  includeSearch?: boolean;
+  // Try the strategies that succeeded most often first
+  adaptive?: boolean;
+  // Progress range the plan is spread over
+  startProgress?: number;
+  endProgress?: number;
+}
+
+export interface StrategyStats {
+  successes: number;
+  lastSuccess: number;
+}
+
+interface RegistryEntry {
+  definition: StrategyDefinition;
+  kind: StrategyKind;
+  order: number;
+}
+
+const STATS_STORAGE_KEY = 'prismio-strategy-stats';
+
+const registry = new Map<string, RegistryEntry>();
+let nextOrder = 0;
+
+function toDefinition({ name, label, fn, transform, chain }: ProcessingStrategy): StrategyDefinition {
+  return { name, label, fn, transform, chain };
+}
+
+processingStrategies.forEach(strategy => registerStrategy(toDefinition(strategy), { kind: 'preprocess' }));
+searchStrategies.forEach(strategy => registerStrategy(toDefinition(strategy), { kind: 'search' }));
+
+export function registerStrategy(definition: StrategyDefinition, options: RegisterStrategyOptions = {}) {
+  const existing = registry.get(definition.name);
+  if (existing && !options.replace) {
+    throw new Error(`Strategy "${definition.name}" is already registered`);
+  }
+
+  registry.set(definition.name, {
+    definition,
+    kind: options.kind ?? existing?.kind ?? 'preprocess',
+    order: existing?.order ?? nextOrder++
+  });
+}
+
+export function unregisterStrategy(name: string): boolean {
+  return registry.delete(name);
+}
+
+export function getRegisteredStrategies(kind?: StrategyKind): StrategyDefinition[] {
+  return [...registry.values()]
+    .filter(entry => !kind || entry.kind === kind)
+    .sort((a, b) => a.order - b.order)
+    .map(entry => entry.definition);
+}
+
+/**
+ * Registers a strategy that runs registered strategies in sequence,
+ * e.g. composeStrategies('Contrast + Otsu', ['Enhanced Contrast', 'Otsu Threshold']).
+ */
+export function composeStrategies(
+  name: string,
+  stepNames: string[],
+  options: RegisterStrategyOptions = {}
+): StrategyDefinition {
+  const steps = stepNames.map(stepName => {
+    const entry = registry.get(stepName);
+    if (!entry) throw new Error(`Strategy "${stepName}" is not registered`);
+    return { ...entry.definition, progress: 0 };
+  });
+
+  const composed = toDefinition(chainStrategies(name, steps));
+  registerStrategy(composed, options);
+  return composed;
+}
+
+/**
+ * Turns the registry into the ordered list processImage runs, spreading
+ * progress evenly over the range so it follows the number of strategies.
+ */
+export function getStrategyPlan(options: StrategyPlanOptions = {}): ProcessingStrategy[] {
+  const { includeSearch = false, adaptive = true, startProgress = 55, endProgress = 95 } = options;
+  const stats = adaptive ? loadStrategyStats() : {};
+
+  const byStats = (a: StrategyDefinition, b: StrategyDefinition) =>
+    (stats[b.name]?.successes ?? 0) - (stats[a.name]?.successes ?? 0);
+
+  // Array.prototype.sort is stable, so ties keep registration order
+  const ordered = [
+    ...getRegisteredStrategies('preprocess').sort(byStats),
+    ...(includeSearch ? getRegisteredStrategies('search').sort(byStats) : [])
+  ];
+
+  const step = ordered.length > 1 ? (endProgress - startProgress) / (ordered.length - 1) : 0;
+
+  return ordered.map((definition, index) => ({
+    ...definition,
+    progress: Math.round(ordered.length > 1 ? startProgress + step * index : endProgress)
+  }));
+}
+
+export function loadStrategyStats(): Record<string, StrategyStats> {
+  if (typeof localStorage === 'undefined') return {};
+
+  try {
+    const stored = localStorage.getItem(STATS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function recordStrategySuccess(name: string) {
+  if (typeof localStorage === 'undefined') return;
+
+  const stats = loadStrategyStats();
+  stats[name] = {
+    successes: (stats[name]?.successes ?? 0) + 1,
+    lastSuccess: Date.now()
+  };
+
+  try {
+    localStorage.setItem(STATS_STORAGE_KEY, JSON.stringify(stats));
+  } catch (error) {
+    console.warn('Failed to save strategy stats:', error);
+  }
+}
+
+export function resetStrategyStats() {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.removeItem(STATS_STORAGE_KEY);
+}
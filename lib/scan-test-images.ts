@@ -0,0 +1,60 @@
+import QRCode from 'qrcode';
+
+// Still images for tests, built without a canvas so they run under Node
+
+/** Minimal stand-in for the browser's ImageData, which Node does not have. */
+export class TestImageData {
+  readonly colorSpace = 'srgb';
+  readonly data: Uint8ClampedArray;
+  readonly width: number;
+  readonly height: number;
+
+  constructor(dataOrWidth: Uint8ClampedArray | number, widthOrHeight: number, height?: number) {
+    if (typeof dataOrWidth === 'number') {
+      this.data = new Uint8ClampedArray(dataOrWidth * widthOrHeight * 4);
+      this.width = dataOrWidth;
+      this.height = widthOrHeight;
+    } else {
+      this.data = dataOrWidth;
+      this.width = widthOrHeight;
+      this.height = height ?? dataOrWidth.length / 4 / widthOrHeight;
+    }
+  }
+}
+
+/** A white image of the given size. */
+export function blankImage(width: number, height: number): ImageData {
+  const image = new TestImageData(width, height);
+  image.data.fill(255);
+  return image as unknown as ImageData;
+}
+
+/**
+ * Draws QR codes onto a white image. Each code is placed with its top left
+ * corner at the given offset, with the module size as scale.
+ */
+export function renderQrCodes(
+  codes: Array<{ text: string; x?: number; y?: number }>,
+  { width = 400, height = 400, scale = 4 } = {}
+): ImageData {
+  const image = blankImage(width, height);
+
+  for (const { text, x = 16, y = 16 } of codes) {
+    const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+
+    for (let row = 0; row < modules.size; row++) {
+      for (let column = 0; column < modules.size; column++) {
+        if (!modules.get(row, column)) continue;
+
+        for (let dy = 0; dy < scale; dy++) {
+          const offset = ((y + row * scale + dy) * width + x + column * scale) * 4;
+          for (let dx = 0; dx < scale; dx++) {
+            image.data.fill(0, offset + dx * 4, offset + dx * 4 + 3);
+          }
+        }
+      }
+    }
+  }
+
+  return image;
+}
@@ -0,0 +1,245 @@
+export interface LocalThresholdOptions {
+  // Side length of the square neighbourhood in pixels; derived from the image size when omitted
+  windowSize?: number;
+  k?: number;
+}
+
+export interface SauvolaOptions extends LocalThresholdOptions {
+  // Dynamic range of the standard deviation
+  r?: number;
+}
+
+export interface ClaheOptions {
+  tilesX?: number;
+  tilesY?: number;
+  // Histogram clip limit as a multiple of the average bin height
+  clipLimit?: number;
+}
+
+function toGray(imageData: ImageData): Uint8ClampedArray {
+  const { data } = imageData;
+  const gray = new Uint8ClampedArray(imageData.width * imageData.height);
+
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    gray[p] = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+  }
+
+  return gray;
+}
+
+function fromGray(gray: Uint8ClampedArray, imageData: ImageData): ImageData {
+  const data = new Uint8ClampedArray(imageData.data);
+
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    data[i] = gray[p];
+    data[i + 1] = gray[p];
+    data[i + 2] = gray[p];
+  }
+
+  return new ImageData(data, imageData.width, imageData.height);
+}
+
+function defaultWindowSize(width: number, height: number): number {
+  // Roughly a few QR modules wide for a code filling a third of the image
+  const size = Math.max(15, Math.round(Math.min(width, height) / 16));
+  return size % 2 === 0 ? size + 1 : size;
+}
+
+/**
+ * Summed-area tables of gray values and their squares, with one row and column
+ * of padding so window sums need no bounds checks.
+ */
+function buildIntegralImages(gray: Uint8ClampedArray, width: number, height: number) {
+  const stride = width + 1;
+  const sum = new Float64Array(stride * (height + 1));
+  const sumSq = new Float64Array(stride * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    let rowSumSq = 0;
+
+    for (let x = 0; x < width; x++) {
+      const value = gray[y * width + x];
+      rowSum += value;
+      rowSumSq += value * value;
+
+      const idx = (y + 1) * stride + (x + 1);
+      sum[idx] = sum[idx - stride] + rowSum;
+      sumSq[idx] = sumSq[idx - stride] + rowSumSq;
+    }
+  }
+
+  return { sum, sumSq, stride };
+}
+
+function localThreshold(
+  imageData: ImageData,
+  windowSize: number | undefined,
+  computeThreshold: (mean: number, deviation: number) => number
+): ImageData {
+  const { width, height } = imageData;
+  const gray = toGray(imageData);
+  const { sum, sumSq, stride } = buildIntegralImages(gray, width, height);
+  const half = Math.floor((windowSize ?? defaultWindowSize(width, height)) / 2);
+  const output = new Uint8ClampedArray(gray.length);
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const count = (x1 - x0) * (y1 - y0);
+
+      const a = y0 * stride + x0;
+      const b = y0 * stride + x1;
+      const c = y1 * stride + x0;
+      const d = y1 * stride + x1;
+      const mean = (sum[d] - sum[b] - sum[c] + sum[a]) / count;
+      const variance = (sumSq[d] - sumSq[b] - sumSq[c] + sumSq[a]) / count - mean * mean;
+      const deviation = Math.sqrt(Math.max(0, variance));
+
+      const p = y * width + x;
+      output[p] = gray[p] > computeThreshold(mean, deviation) ? 255 : 0;
+    }
+  }
+
+  return fromGray(output, imageData);
+}
+
+export function sauvolaThreshold(options: SauvolaOptions = {}): (imageData: ImageData) => ImageData {
+  const k = options.k ?? 0.34;
+  const r = options.r ?? 128;
+
+  return (imageData: ImageData) =>
+    localThreshold(imageData, options.windowSize, (mean, deviation) => mean * (1 + k * (deviation / r - 1)));
+}
+
+export function niblackThreshold(options: LocalThresholdOptions = {}): (imageData: ImageData) => ImageData {
+  const k = options.k ?? -0.2;
+
+  return (imageData: ImageData) =>
+    localThreshold(imageData, options.windowSize, (mean, deviation) => mean + k * deviation);
+}
+
+export function otsuLevel(gray: Uint8ClampedArray): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < gray.length; i++) histogram[gray[i]]++;
+
+  const total = gray.length;
+  let sumAll = 0;
+  for (let level = 0; level < 256; level++) sumAll += level * histogram[level];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = -1;
+  let bestLevel = 127;
+
+  for (let level = 0; level < 256; level++) {
+    weightBackground += histogram[level];
+    if (weightBackground === 0) continue;
+
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += level * histogram[level];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const betweenVariance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+
+    if (betweenVariance > bestVariance) {
+      bestVariance = betweenVariance;
+      bestLevel = level;
+    }
+  }
+
+  return bestLevel;
+}
+
+export function otsuThreshold(imageData: ImageData): ImageData {
+  const gray = toGray(imageData);
+  const level = otsuLevel(gray);
+  const output = new Uint8ClampedArray(gray.length);
+
+  for (let i = 0; i < gray.length; i++) {
+    output[i] = gray[i] > level ? 255 : 0;
+  }
+
+  return fromGray(output, imageData);
+}
+
+/**
+ * Contrast Limited Adaptive Histogram Equalization: equalizes each tile with a
+ * clipped histogram and blends neighbouring tile mappings bilinearly to avoid seams.
+ */
+export function clahe(options: ClaheOptions = {}): (imageData: ImageData) => ImageData {
+  const tilesX = options.tilesX ?? 8;
+  const tilesY = options.tilesY ?? 8;
+  const clipLimit = options.clipLimit ?? 2;
+
+  return (imageData: ImageData) => {
+    const { width, height } = imageData;
+    const gray = toGray(imageData);
+    const tileWidth = Math.ceil(width / tilesX);
+    const tileHeight = Math.ceil(height / tilesY);
+    const mappings: Uint8ClampedArray[] = [];
+
+    for (let ty = 0; ty < tilesY; ty++) {
+      for (let tx = 0; tx < tilesX; tx++) {
+        const x0 = tx * tileWidth;
+        const y0 = ty * tileHeight;
+        const x1 = Math.min(width, x0 + tileWidth);
+        const y1 = Math.min(height, y0 + tileHeight);
+        const histogram = new Array<number>(256).fill(0);
+        const pixels = Math.max(1, (x1 - x0) * (y1 - y0));
+
+        for (let y = y0; y < y1; y++) {
+          for (let x = x0; x < x1; x++) histogram[gray[y * width + x]]++;
+        }
+
+        // Clip and spread the excess evenly over all bins
+        const limit = Math.max(1, Math.round((clipLimit * pixels) / 256));
+        let excess = 0;
+        for (let level = 0; level < 256; level++) {
+          if (histogram[level] > limit) {
+            excess += histogram[level] - limit;
+            histogram[level] = limit;
+          }
+        }
+        const bonus = excess / 256;
+
+        const mapping = new Uint8ClampedArray(256);
+        let cumulative = 0;
+        for (let level = 0; level < 256; level++) {
+          cumulative += histogram[level] + bonus;
+          mapping[level] = Math.round((cumulative / pixels) * 255);
+        }
+        mappings.push(mapping);
+      }
+    }
+
+    const output = new Uint8ClampedArray(gray.length);
+
+    for (let y = 0; y < height; y++) {
+      const gy = Math.min(tilesY - 1, Math.max(0, (y - tileHeight / 2) / tileHeight));
+      const ty0 = Math.floor(gy);
+      const ty1 = Math.min(tilesY - 1, ty0 + 1);
+      const wy = gy - ty0;
+
+      for (let x = 0; x < width; x++) {
+        const gx = Math.min(tilesX - 1, Math.max(0, (x - tileWidth / 2) / tileWidth));
+        const tx0 = Math.floor(gx);
+        const tx1 = Math.min(tilesX - 1, tx0 + 1);
+        const wx = gx - tx0;
+
+        const value = gray[y * width + x];
+        const top = mappings[ty0 * tilesX + tx0][value] * (1 - wx) + mappings[ty0 * tilesX + tx1][value] * wx;
+        const bottom = mappings[ty1 * tilesX + tx0][value] * (1 - wx) + mappings[ty1 * tilesX + tx1][value] * wx;
+        output[y * width + x] = top * (1 - wy) + bottom * wy;
+      }
+    }
+
+    return fromGray(output, imageData);
+  };
+}
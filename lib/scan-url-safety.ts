@@ -0,0 +1,158 @@
+import { getRegistrableDomain, isIpHost, toUnicodeHost } from './scan-url';
+
+export type UrlRiskLevel = 'low' | 'medium' | 'high';
+
+export interface UrlSafetyReason {
+  code:
+    | 'dangerous-scheme'
+    | 'credentials'
+    | 'ip-host'
+    | 'homograph'
+    | 'punycode'
+    | 'shortener'
+    | 'suspicious-tld'
+    | 'host-mismatch'
+    | 'lookalike-subdomain'
+    | 'insecure'
+    | 'unparseable';
+  severity: UrlRiskLevel;
+  message: string;
+}
+
+export interface UrlSafetyReport {
+  riskLevel: UrlRiskLevel;
+  reasons: UrlSafetyReason[];
+  // Hostname with internationalized labels decoded for display
+  displayHost?: string;
+}
+
+const DANGEROUS_SCHEMES = new Set(['javascript:', 'data:', 'vbscript:', 'file:', 'blob:']);
+
+const URL_SHORTENERS = new Set([
+  'bit.ly', 'bitly.com', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'buff.ly', 'rebrand.ly',
+  'cutt.ly', 'shorturl.at', 'tiny.cc', 'rb.gy', 'bl.ink', 's.id', 't.ly', 'lnkd.in', 'v.gd',
+  'qrco.de', 'tiny.one', 'shorte.st', 'adf.ly', 'soo.gd', 'clck.ru', 'u.to'
+]);
+
+// TLDs heavily over-represented in phishing and malware reports
+const SUSPICIOUS_TLDS = new Set([
+  'zip', 'mov', 'tk', 'ml', 'ga', 'cf', 'gq', 'top', 'xyz', 'click', 'country', 'kim', 'loan',
+  'men', 'review', 'date', 'faith', 'racing', 'win', 'bid', 'stream', 'download', 'work', 'rest',
+  'cam', 'icu', 'support', 'buzz', 'monster'
+]);
+
+// Common TLDs used to spot a domain name hidden in a subdomain, e.g. "paypal.com.evil.xyz"
+const COMMON_TLDS = new Set(['com', 'net', 'org', 'de', 'uk', 'ch', 'fr', 'io', 'gov', 'edu', 'app', 'bank']);
+
+// Cyrillic and Greek letters that render like Latin ones
+const LATIN_LOOKALIKES = new Set(Array.from('аеорсхуіјѕԁһӏԛԝαеορτυνкмтвнΑΒΕΗΙΚΜΝΟΡΤΥΧ'));
+
+const riskOrder: Record<UrlRiskLevel, number> = { low: 0, medium: 1, high: 2 };
+
+function scriptsOf(label: string): Set<string> {
+  const scripts = new Set<string>();
+
+  for (const char of label) {
+    if (/\p{Script=Latin}/u.test(char)) scripts.add('Latin');
+    else if (/\p{Script=Cyrillic}/u.test(char)) scripts.add('Cyrillic');
+    else if (/\p{Script=Greek}/u.test(char)) scripts.add('Greek');
+    else if (/\p{L}/u.test(char)) scripts.add('Other');
+  }
+
+  return scripts;
+}
+
+// Host as a person reads it in the raw text, before the URL parser normalizes it
+function rawHostOf(raw: string): string | null {
+  const match = raw.match(/^[a-z][a-z0-9+.-]*:\/\/([^/?#]*)/i);
+  if (!match) return null;
+
+  const authority = match[1];
+  const host = authority.substring(authority.lastIndexOf('@') + 1);
+  return host.replace(/:\d*$/, '').replace(/\.$/, '').toLowerCase();
+}
+
+/**
+ * Inspects a decoded URL offline for common phishing tricks. Nothing is
+ * fetched; the report is based on the text alone.
+ */
+export function inspectUrl(raw: string, resolvedUrl = raw): UrlSafetyReport {
+  const reasons: UrlSafetyReason[] = [];
+  const add = (code: UrlSafetyReason['code'], severity: UrlRiskLevel, message: string) => {
+    reasons.push({ code, severity, message });
+  };
+
+  let url: URL;
+  try {
+    url = new URL(resolvedUrl.trim());
+  } catch {
+    add('unparseable', 'medium', 'This does not parse as a valid web address.');
+    return { riskLevel: 'medium', reasons };
+  }
+
+  if (DANGEROUS_SCHEMES.has(url.protocol)) {
+    add('dangerous-scheme', 'high', `"${url.protocol}" links can run code or load content directly in your browser.`);
+    return { riskLevel: 'high', reasons };
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  const displayHost = toUnicodeHost(hostname);
+
+  if (url.username || url.password) {
+    add('credentials', 'high', `The address contains "${decodeURIComponent(url.username)}@" before the real site, ${displayHost}. This is a common way to disguise a link.`);
+  }
+
+  if (isIpHost(hostname)) {
+    add('ip-host', 'medium', 'The link points to a bare IP address instead of a domain name.');
+  }
+
+  const rawHost = rawHostOf(raw.trim());
+  if (rawHost !== null && rawHost !== hostname && toUnicodeHost(rawHost) !== displayHost && rawHost !== displayHost) {
+    add('host-mismatch', 'high', `The link reads as "${rawHost}" but actually opens ${displayHost}.`);
+  }
+
+  for (const label of hostname.split('.')) {
+    if (!label.startsWith('xn--')) continue;
+
+    const decoded = toUnicodeHost(label);
+    const scripts = scriptsOf(decoded);
+    const lettersOnlyLookalikes = Array.from(decoded).every(char => !/\p{L}/u.test(char) || LATIN_LOOKALIKES.has(char));
+
+    if (scripts.size > 1 && scripts.has('Latin')) {
+      add('homograph', 'high', `"${decoded}" mixes ${Array.from(scripts).join(' and ')} letters that look alike.`);
+    } else if ((scripts.has('Cyrillic') || scripts.has('Greek')) && lettersOnlyLookalikes) {
+      add('homograph', 'high', `"${decoded}" uses non-Latin letters that look like Latin ones.`);
+    } else {
+      add('punycode', 'medium', `The domain uses international characters: ${displayHost}.`);
+    }
+  }
+
+  const registrable = getRegistrableDomain(hostname) ?? hostname;
+  if (URL_SHORTENERS.has(registrable) || URL_SHORTENERS.has(hostname)) {
+    add('shortener', 'medium', `${registrable} is a link shortener, so the final destination is hidden.`);
+  }
+
+  const tld = hostname.split('.').pop() ?? '';
+  if (SUSPICIOUS_TLDS.has(tld)) {
+    add('suspicious-tld', 'medium', `The ".${tld}" ending is often used by spam and phishing sites.`);
+  }
+
+  // e.g. "paypal.com.account-check.xyz": a familiar domain used as a subdomain
+  const subdomainLabels = hostname.substring(0, Math.max(0, hostname.length - registrable.length - 1)).split('.');
+  const hiddenTld = subdomainLabels.map(label => COMMON_TLDS.has(label)).lastIndexOf(true);
+  const lookalike = hiddenTld > 0 ? getRegistrableDomain(subdomainLabels.slice(0, hiddenTld + 1).join('.')) : null;
+  if (lookalike && !isIpHost(hostname)) {
+    add('lookalike-subdomain', 'high', `The address starts with "${lookalike}" but the site is ${toUnicodeHost(registrable)}.`);
+  }
+
+  if (url.protocol === 'http:') {
+    add('insecure', 'low', 'The connection is not encrypted (http).');
+  }
+
+  const riskLevel = reasons.reduce<UrlRiskLevel>(
+    (level, reason) => (riskOrder[reason.severity] > riskOrder[level] ? reason.severity : level),
+    'low'
+  );
+
+  return { riskLevel, reasons, displayHost };
+}
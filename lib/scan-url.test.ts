@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { getRegistrableDomain, getUriScheme, isWebUrl, toUnicodeHost } from './scan-url';
+
+describe('getUriScheme', () => {
+  it.each([
+    ['https://example.com', 'https'],
+    ['HTTP://EXAMPLE.COM', 'http'],
+    ['mailto:someone@example.com', 'mailto'],
+    ['tel:+15551234567', 'tel'],
+    ['tel:112', 'tel'],
+    ['sms:12345', 'sms'],
+    ['geo:52.5,13.4', 'geo'],
+    ['otpauth://totp/Example:alice?secret=JBSWY3DPEHPK3PXP', 'otpauth'],
+    ['bitcoin:1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', 'bitcoin'],
+    ['javascript:alert(1)', 'javascript'],
+    ['WIFI:S:Home;T:WPA;P:secret;;', 'wifi'],
+    ['coap+tcp://example.com', 'coap+tcp']
+  ])('reads the scheme of %s', (content, scheme) => {
+    expect(getUriScheme(content)).toBe(scheme);
+  });
+
+  it.each([
+    'example.com',
+    'example.com:8080',
+    'localhost:3000',
+    'localhost:3000/api/health',
+    'printer:631/ipp',
+    'Hello world',
+    '1.2.3',
+    ''
+  ])('finds no scheme in %s', content => {
+    expect(getUriScheme(content)).toBeNull();
+  });
+});
+
+describe('isWebUrl', () => {
+  it.each([
+    'https://example.com',
+    'http://example.com/path?query=1#top',
+    'example.com',
+    'www.example.co.uk',
+    'sub.domain.example.org/path',
+    'example.com:8080',
+    'localhost:3000',
+    'http://localhost',
+    'http://192.168.1.1',
+    '192.168.1.1:8080',
+    '10.0.0.1/admin',
+    'https://[::1]:8080/',
+    'bücher.de',
+    'xn--bcher-kva.de',
+    'www.readme.md'
+  ])('accepts %s', content => {
+    expect(isWebUrl(content)).toBe(true);
+  });
+
+  it.each([
+    'localhost',
+    'v1.2.config',
+    '1.2.3',
+    '10.0.0.1',
+    'notes.md',
+    'script.py',
+    'archive.zip',
+    'file.txt.bak',
+    'example.invalidtld',
+    'javascript:alert(1)',
+    'ftp://example.com',
+    'mailto:someone@example.com',
+    'https://example .com',
+    'just some text'
+  ])('rejects %s', content => {
+    expect(isWebUrl(content)).toBe(false);
+  });
+});
+
+describe('public suffix lookup', () => {
+  it.each([
+    ['www.bbc.co.uk', 'bbc.co.uk'],
+    ['example.com', 'example.com'],
+    ['a.b.example.com.au', 'example.com.au'],
+    ['co.uk', null],
+    ['example.unknowntld', null]
+  ])('finds the registrable domain of %s', (hostname, domain) => {
+    expect(getRegistrableDomain(hostname)).toBe(domain);
+  });
+
+  it('decodes punycode labels', () => {
+    expect(toUnicodeHost('xn--bcher-kva.de')).toBe('bücher.de');
+  });
+});
@@ -0,0 +1,182 @@
+import { PUBLIC_SUFFIX_RULES } from './scan-public-suffixes';
+
+// Schemes opened as websites; every other scheme is routed by the content detector
+export const WEB_SCHEMES = new Set(['http', 'https']);
+
+// Schemes whose value can be a bare number, so "tel:112" is not read as host "tel" on port 112
+const NUMERIC_SCHEMES = new Set(['tel', 'sms', 'smsto', 'mms', 'mmsto', 'fax', 'callto', 'facetime', 'facetime-audio']);
+
+// TLDs that are more often file extensions when written without a scheme or path
+const FILE_EXTENSION_TLDS = new Set(['md', 'py', 'sh', 'pl', 'rs', 'ps', 'so', 'zip', 'mov']);
+
+interface SuffixRules {
+  rules: Set<string>;
+  // Parents of "*." rules, e.g. "ck" for "*.ck"
+  wildcards: Set<string>;
+  // "!" exception rules without the marker
+  exceptions: Set<string>;
+}
+
+let suffixRules: SuffixRules | null = null;
+
+function getSuffixRules(): SuffixRules {
+  if (!suffixRules) {
+    suffixRules = { rules: new Set(), wildcards: new Set(), exceptions: new Set() };
+
+    for (const rule of PUBLIC_SUFFIX_RULES.split(/\s+/)) {
+      if (!rule) continue;
+      if (rule.startsWith('!')) suffixRules.exceptions.add(rule.substring(1));
+      else if (rule.startsWith('*.')) suffixRules.wildcards.add(rule.substring(2));
+      else suffixRules.rules.add(rule);
+    }
+  }
+
+  return suffixRules;
+}
+
+function adaptBias(delta: number, numPoints: number, firstTime: boolean): number {
+  delta = firstTime ? Math.floor(delta / 700) : delta >> 1;
+  delta += Math.floor(delta / numPoints);
+
+  let k = 0;
+  while (delta > 455) {
+    delta = Math.floor(delta / 35);
+    k += 36;
+  }
+
+  return k + Math.floor((36 * delta) / (delta + 38));
+}
+
+/** Decodes one punycode label body (without "xn--"), per RFC 3492. */
+export function decodePunycode(input: string): string {
+  const output: string[] = [];
+  const basicEnd = input.lastIndexOf('-');
+  if (basicEnd > 0) output.push(...Array.from(input.substring(0, basicEnd)));
+
+  let n = 128;
+  let bias = 72;
+  let i = 0;
+  let position = basicEnd > 0 ? basicEnd + 1 : 0;
+
+  while (position < input.length) {
+    const previousI = i;
+    let weight = 1;
+
+    for (let k = 36; ; k += 36) {
+      if (position >= input.length) throw new Error('Invalid punycode');
+      const code = input.charCodeAt(position++);
+      const digit = code >= 48 && code <= 57 ? code - 22 : code >= 65 && code <= 90 ? code - 65 : code >= 97 && code <= 122 ? code - 97 : 36;
+      if (digit >= 36) throw new Error('Invalid punycode');
+
+      i += digit * weight;
+      const threshold = k <= bias ? 1 : k >= bias + 26 ? 26 : k - bias;
+      if (digit < threshold) break;
+      weight *= 36 - threshold;
+    }
+
+    bias = adaptBias(i - previousI, output.length + 1, previousI === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    output.splice(i, 0, String.fromCodePoint(n));
+    i++;
+  }
+
+  return output.join('');
+}
+
+export function toUnicodeHost(hostname: string): string {
+  return hostname.split('.').map(label => {
+    if (!label.toLowerCase().startsWith('xn--')) return label;
+    try {
+      return decodePunycode(label.substring(4));
+    } catch {
+      return label;
+    }
+  }).join('.');
+}
+
+export function isIpHost(hostname: string): boolean {
+  return hostname.startsWith('[') || /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname);
+}
+
+// Number of trailing labels forming the public suffix, or 0 when the TLD is unknown
+function publicSuffixLength(hostname: string): number {
+  const labels = toUnicodeHost(hostname.toLowerCase().replace(/\.$/, '')).split('.');
+  const { rules, wildcards, exceptions } = getSuffixRules();
+
+  // Longest match wins: exceptions end one label short, wildcards reach one label further
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (exceptions.has(candidate)) return labels.length - i - 1;
+    if (i > 0 && wildcards.has(candidate)) return labels.length - i + 1;
+    if (rules.has(candidate)) return labels.length - i;
+  }
+
+  return 0;
+}
+
+/** Returns the public suffix of a hostname, e.g. "co.uk", or null when its TLD is not on the list. */
+export function getPublicSuffix(hostname: string): string | null {
+  const length = publicSuffixLength(hostname);
+  if (length === 0) return null;
+  return hostname.replace(/\.$/, '').split('.').slice(-length).join('.');
+}
+
+/** Returns the domain one label below the public suffix, e.g. "bbc.co.uk" for "www.bbc.co.uk". */
+export function getRegistrableDomain(hostname: string): string | null {
+  const labels = hostname.replace(/\.$/, '').split('.');
+  const length = publicSuffixLength(hostname);
+  if (length === 0 || labels.length <= length) return null;
+  return labels.slice(-(length + 1)).join('.');
+}
+
+/**
+ * Returns the lowercase URI scheme, or null. "host.com:8080" has no scheme since
+ * schemes here cannot contain dots, and "localhost:3000" is a host and port.
+ */
+export function getUriScheme(content: string): string | null {
+  const value = content.trim();
+  const match = value.match(/^([a-z][a-z0-9+-]*):/i);
+  if (!match) return null;
+
+  const scheme = match[1].toLowerCase();
+  const isHostAndPort = /^[a-z][a-z0-9-]*:\d{1,5}(?:[/?#]|$)/i.test(value) && !NUMERIC_SCHEMES.has(scheme);
+  return isHostAndPort ? null : scheme;
+}
+
+/**
+ * Checks whether content is a web address: an http(s) URL, or a scheme-less
+ * host with an optional port and path. Hosts must be IP addresses, localhost
+ * or end in a public suffix.
+ */
+export function isWebUrl(content: string): boolean {
+  const value = content.trim();
+  if (/\s/.test(value)) return false;
+
+  const scheme = getUriScheme(value);
+  if (scheme && !WEB_SCHEMES.has(scheme)) return false;
+
+  if (!scheme) {
+    const match = value.match(/^(localhost|[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)+)(:\d{1,5})?([/?#]\S*)?$/iu);
+    if (!match) return false;
+
+    const [, host, port, rest] = match;
+    if (host.toLowerCase() === 'localhost') return Boolean(port || rest);
+    const tld = host.split('.').pop()!.toLowerCase();
+    const hasPortOrPath = Boolean(port || rest);
+
+    // Version numbers and file names such as "1.2.3" or "notes.md"
+    if (/^\d+$/.test(tld) && !(isIpHost(host) && hasPortOrPath)) return false;
+    if (FILE_EXTENSION_TLDS.has(tld) && !hasPortOrPath && !/^www\./i.test(host)) return false;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(scheme ? value : `https://${value}`);
+  } catch {
+    return false;
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  return hostname === 'localhost' || isIpHost(hostname) || getRegistrableDomain(hostname) !== null;
+}
@@ -0,0 +1,257 @@
+import type { VCardContact } from './scan-content-utils';
+
+export type VCardParameters = Record<string, string[]>;
+
+export interface ContentLine {
+  // Property group, e.g. "item1" in "item1.EMAIL"
+  group?: string;
+  name: string;
+  params: VCardParameters;
+  // Decoded from QUOTED-PRINTABLE where needed, but still escaped
+  value: string;
+}
+
+// vCard 2.1 allows bare parameters ("TEL;CELL;VOICE:"); these name an encoding rather than a type
+const BARE_ENCODINGS = new Set(['QUOTED-PRINTABLE', 'BASE64', '8BIT', '7BIT', 'B']);
+
+function isQuotedPrintableLine(line: string): boolean {
+  const colonIndex = findValueSeparator(line);
+  const head = colonIndex === -1 ? line : line.substring(0, colonIndex);
+  return /(^|;)(ENCODING=)?QUOTED-PRINTABLE(;|$)/i.test(head);
+}
+
+/**
+ * Splits text into logical lines: folded continuation lines (leading space or
+ * tab) are joined, as are vCard 2.1 quoted-printable soft line breaks.
+ */
+export function unfoldLines(text: string): string[] {
+  const lines: string[] = [];
+
+  for (const raw of text.split(/\r\n|\r|\n/)) {
+    const previous = lines.length - 1;
+
+    if (previous >= 0 && lines[previous].endsWith('=') && isQuotedPrintableLine(lines[previous])) {
+      lines[previous] = lines[previous].slice(0, -1) + raw.trimStart();
+    } else if (previous >= 0 && /^[ \t]/.test(raw)) {
+      lines[previous] += raw.substring(1);
+    } else {
+      lines.push(raw);
+    }
+  }
+
+  return lines.filter(line => line.trim().length > 0);
+}
+
+// Index of the colon between name/params and value, ignoring quoted parameter values
+function findValueSeparator(line: string): number {
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) return i;
+  }
+
+  return -1;
+}
+
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of value) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === separator && !quoted) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+function parseParameters(parts: string[]): VCardParameters {
+  const params: VCardParameters = {};
+
+  const add = (key: string, values: string[]) => {
+    params[key] = [...(params[key] ?? []), ...values.filter(Boolean)];
+  };
+
+  for (const part of parts) {
+    if (!part) continue;
+    const equalsIndex = part.indexOf('=');
+
+    if (equalsIndex === -1) {
+      const bare = part.trim().toUpperCase();
+      add(BARE_ENCODINGS.has(bare) ? 'ENCODING' : 'TYPE', [part.trim()]);
+    } else {
+      const key = part.substring(0, equalsIndex).trim().toUpperCase();
+      const values = splitOutsideQuotes(part.substring(equalsIndex + 1), ',').map(value => unquote(value.trim()));
+      // vCard 4.0 also quotes whole lists: TYPE="work,voice"
+      add(key, key === 'TYPE' ? values.flatMap(value => value.split(',')) : values);
+    }
+  }
+
+  return params;
+}
+
+export function decodeQuotedPrintable(value: string, charset = 'utf-8'): string {
+  const bytes: number[] = [];
+
+  for (let i = 0; i < value.length; i++) {
+    const hex = value.substring(i + 1, i + 3);
+    if (value[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(value.charCodeAt(i) & 0xff);
+    }
+  }
+
+  try {
+    return new TextDecoder(charset).decode(new Uint8Array(bytes));
+  } catch {
+    return new TextDecoder('utf-8').decode(new Uint8Array(bytes));
+  }
+}
+
+export function parseContentLine(line: string): ContentLine | null {
+  const colonIndex = findValueSeparator(line);
+  if (colonIndex === -1) return null;
+
+  const [nameWithGroup, ...paramParts] = splitOutsideQuotes(line.substring(0, colonIndex), ';');
+  const dotIndex = nameWithGroup.lastIndexOf('.');
+  const params = parseParameters(paramParts);
+  let value = line.substring(colonIndex + 1);
+
+  if (params.ENCODING?.some(encoding => encoding.toUpperCase() === 'QUOTED-PRINTABLE')) {
+    value = decodeQuotedPrintable(value, params.CHARSET?.[0]);
+  }
+
+  return {
+    group: dotIndex === -1 ? undefined : nameWithGroup.substring(0, dotIndex),
+    name: nameWithGroup.substring(dotIndex + 1).trim().toUpperCase(),
+    params,
+    value
+  };
+}
+
+export function parseContentLines(text: string): ContentLine[] {
+  return unfoldLines(text)
+    .map(parseContentLine)
+    .filter((line): line is ContentLine => line !== null);
+}
+
+/** Splits on separators that are not backslash-escaped, keeping escapes intact. */
+export function splitEscaped(value: string, separator: ';' | ','): string[] {
+  const parts: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+export function unescapeValue(value: string): string {
+  return value
+    .replace(/\\([\\;,:nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char))
+    .replace(/\r\n?/g, '\n');
+}
+
+export function formatBirthday(value: string): string {
+  // Basic format "19850412" reads better as "1985-04-12"
+  const basic = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  return basic ? `${basic[1]}-${basic[2]}-${basic[3]}` : value;
+}
+
+/** Stores a property without a dedicated field; repeated keys are numbered so no value is lost. */
+export function addUnmappedField(contact: VCardContact, key: string, value: string) {
+  let uniqueKey = key;
+  for (let count = 2; uniqueKey in contact.unmappedFields; count++) {
+    uniqueKey = `${key}-${count}`;
+  }
+  contact.unmappedFields[uniqueKey] = value;
+}
+
+/** TYPE values across all TYPE params and vCard 2.1 bare params, lower-cased. */
+export function getLineTypes(line: ContentLine): string[] {
+  return (line.params.TYPE ?? []).map(type => type.trim().toLowerCase()).filter(Boolean);
+}
+
+function escapeVCardValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,');
+}
+
+function typeParam(type: string | undefined): string {
+  return type && type !== 'default' && type !== 'phone' ? `;TYPE=${type.toUpperCase()}` : '';
+}
+
+/** Serializes a contact as vCard 3.0, e.g. for a generated QR code or a .vcf download. */
+export function buildVCardPayload(contact: VCardContact): string {
+  const lines = ['BEGIN:VCARD', 'VERSION:3.0'];
+  const name = contact.name;
+
+  if (name?.family || name?.given || name?.additional || name?.prefix || name?.suffix) {
+    lines.push(`N:${[name.family, name.given, name.additional, name.prefix, name.suffix].map(part => escapeVCardValue(part ?? '')).join(';')}`);
+  }
+
+  // FN is required in vCard 3.0
+  const formatted = name?.formatted || [name?.given, name?.family].filter(Boolean).join(' ') || contact.organization?.name || '';
+  lines.push(`FN:${escapeVCardValue(formatted)}`);
+
+  if (contact.nicknames?.length) lines.push(`NICKNAME:${contact.nicknames.map(escapeVCardValue).join(',')}`);
+
+  if (contact.organization?.name) {
+    lines.push(`ORG:${[contact.organization.name, ...(contact.organization.units ?? [])].map(escapeVCardValue).join(';')}`);
+  }
+  if (contact.organization?.title) lines.push(`TITLE:${escapeVCardValue(contact.organization.title)}`);
+
+  contact.phones?.forEach(phone => lines.push(`TEL${typeParam(phone.type)}:${escapeVCardValue(phone.value)}`));
+  contact.emails?.forEach(email => lines.push(`EMAIL${typeParam(email.type)}:${escapeVCardValue(email.value)}`));
+
+  contact.addresses?.forEach(address => {
+    const parts = [address.poBox, address.extended, address.street, address.city, address.state, address.zip, address.country];
+    lines.push(`ADR${typeParam(address.type)}:${parts.map(part => escapeVCardValue(part ?? '')).join(';')}`);
+  });
+
+  contact.urls?.forEach(url => lines.push(`URL${typeParam(url.type)}:${url.value}`));
+  if (contact.birthday) lines.push(`BDAY:${contact.birthday}`);
+  if (contact.geo) lines.push(`GEO:${contact.geo.latitude};${contact.geo.longitude}`);
+  if (contact.timezone) lines.push(`TZ:${escapeVCardValue(contact.timezone)}`);
+
+  const embeddedPhoto = contact.photo?.uri.match(/^data:([^;,]+);base64,(.*)$/);
+  if (embeddedPhoto) {
+    lines.push(`PHOTO;ENCODING=b;TYPE=${embeddedPhoto[1].replace(/^image\//, '').toUpperCase()}:${embeddedPhoto[2]}`);
+  } else if (contact.photo) {
+    lines.push(`PHOTO;VALUE=uri:${contact.photo.uri}`);
+  }
+
+  if (contact.notes) lines.push(`NOTE:${escapeVCardValue(contact.notes)}`);
+  if (contact.uid) lines.push(`UID:${escapeVCardValue(contact.uid)}`);
+
+  lines.push('END:VCARD');
+  return lines.join('\r\n');
+}
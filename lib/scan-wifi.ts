@@ -0,0 +1,73 @@
+import { parseMeCardFields } from './scan-mecard';
+
+export interface WifiNetwork {
+  ssid: string;
+  // As written in the code: "WPA", "WEP", "nopass", "WPA2-EAP", "SAE", ...
+  security: string;
+  password?: string;
+  hidden: boolean;
+  // WPA2-Enterprise settings
+  eap?: {
+    method?: string;
+    anonymousIdentity?: string;
+    identity?: string;
+    phase2?: string;
+  };
+}
+
+const securityLabels: Record<string, string> = {
+  NOPASS: 'None (open network)',
+  WEP: 'WEP',
+  WPA: 'WPA/WPA2',
+  WPA2: 'WPA2',
+  SAE: 'WPA3',
+  WPA3: 'WPA3',
+  'WPA2-EAP': 'WPA2 Enterprise'
+};
+
+export function isWifiPayload(content: string): boolean {
+  return /^WIFI:/i.test(content.trim());
+}
+
+// Some generators wrap values in double quotes to keep them from being read as hex
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+/**
+ * Parses a WIFI: payload with fields in any order and backslash escapes.
+ * Returns null when there is no SSID to join.
+ */
+export function parseWifi(content: string): WifiNetwork | null {
+  const fields = new Map<string, string>();
+
+  for (const { key, value } of parseMeCardFields(content.trim())) {
+    // The first occurrence wins, as in common Android and iOS readers
+    if (!fields.has(key)) fields.set(key, unquote(value));
+  }
+
+  const ssid = fields.get('S');
+  if (!ssid) return null;
+
+  const password = fields.get('P') || undefined;
+  const type = fields.get('T')?.trim();
+  const security = type || (password ? 'WPA' : 'nopass');
+  const eapFields = {
+    method: fields.get('E') || undefined,
+    anonymousIdentity: fields.get('A') || undefined,
+    identity: fields.get('I') || undefined,
+    phase2: fields.get('PH2') || undefined
+  };
+
+  return {
+    ssid,
+    security,
+    password: security.toUpperCase() === 'NOPASS' ? undefined : password,
+    hidden: fields.get('H')?.toLowerCase() === 'true',
+    eap: Object.values(eapFields).some(Boolean) ? eapFields : undefined
+  };
+}
+
+export function describeWifiSecurity(security: string): string {
+  return securityLabels[security.toUpperCase()] ?? security;
+}
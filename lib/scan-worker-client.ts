@@ -0,0 +1,98 @@
+import { isBuiltInStrategy, ProcessingStrategy, QRResult } from './scan-strategies';
+import type { ScanWorkerRequest, ScanWorkerResponse } from './scan-worker';
+
+export interface WorkerScanJob {
+  promise: Promise<QRResult | null>;
+  cancel: () => void;
+}
+
+const idleWorkers: Worker[] = [];
+let nextJobId = 1;
+
+export function isWorkerSupported(): boolean {
+  return typeof window !== 'undefined' && typeof Worker !== 'undefined';
+}
+
+// Strategy functions cannot be sent to a worker, so only built-in ones and chains of them are run there
+export function canRunInWorker(strategies: ProcessingStrategy[]): boolean {
+  return strategies.every(isBuiltInStrategy);
+}
+
+function acquireWorker(): Worker {
+  return idleWorkers.pop() ?? new Worker(new URL('./scan-worker.ts', import.meta.url));
+}
+
+function releaseWorker(worker: Worker) {
+  worker.onmessage = null;
+  worker.onerror = null;
+  idleWorkers.push(worker);
+}
+
+/**
+ * Scans a copy of the pixel buffer in a pooled worker. The copy is transferred
+ * rather than cloned, and the caller's ImageData stays usable. Cancelling
+ * terminates the worker, which is the only way to interrupt a running strategy.
+ */
+export function scanInWorker(
+  imageData: ImageData,
+  strategies: ProcessingStrategy[],
+  onProgress: (progress: number, strategy: string) => void
+): WorkerScanJob {
+  const id = nextJobId++;
+  const worker = acquireWorker();
+  let settled = false;
+  let rejectJob: (error: Error) => void = () => {};
+
+  const promise = new Promise<QRResult | null>((resolve, reject) => {
+    rejectJob = reject;
+
+    worker.onmessage = (event: MessageEvent<ScanWorkerResponse>) => {
+      const message = event.data;
+      if (message.id !== id || settled) return;
+
+      switch (message.type) {
+        case 'progress':
+          onProgress(message.progress, message.strategy);
+          break;
+
+        case 'result':
+          settled = true;
+          releaseWorker(worker);
+          resolve(message.result);
+          break;
+
+        case 'error':
+          settled = true;
+          releaseWorker(worker);
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      if (settled) return;
+      settled = true;
+      worker.terminate();
+      reject(new Error(event.message || 'Scan worker failed'));
+    };
+
+    const buffer = imageData.data.slice().buffer;
+    const request: ScanWorkerRequest = {
+      id,
+      buffer,
+      width: imageData.width,
+      height: imageData.height,
+      strategies: strategies.map(({ name, progress, chain }) => ({ name, progress, chain }))
+    };
+    worker.postMessage(request, [buffer]);
+  });
+
+  const cancel = () => {
+    if (settled) return;
+    settled = true;
+    worker.terminate();
+    rejectJob(new DOMException('Scan was cancelled', 'AbortError'));
+  };
+
+  return { promise, cancel };
+}
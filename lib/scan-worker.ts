@@ -0,0 +1,68 @@
+import {
+  chainStrategies,
+  decodeWithStrategy,
+  findBuiltInStrategy,
+  ProcessingStrategy,
+  QRResult
+} from './scan-strategies';
+
+export interface ScanWorkerRequest {
+  id: number;
+  buffer: ArrayBuffer;
+  width: number;
+  height: number;
+  strategies: WorkerStrategySpec[];
+}
+
+export interface WorkerStrategySpec {
+  name: string;
+  progress: number;
+  chain?: string[];
+}
+
+export type ScanWorkerResponse =
+  | { id: number; type: 'progress'; progress: number; strategy: string }
+  | { id: number; type: 'result'; result: QRResult | null }
+  | { id: number; type: 'error'; message: string };
+
+const post = (message: ScanWorkerResponse) => self.postMessage(message);
+
+function resolveStrategy(spec: WorkerStrategySpec): ProcessingStrategy | undefined {
+  if (spec.chain) {
+    const steps = spec.chain.map(findBuiltInStrategy);
+    if (steps.some(step => !step)) return undefined;
+    return { ...chainStrategies(spec.name, steps as ProcessingStrategy[]), progress: spec.progress };
+  }
+
+  const builtIn = findBuiltInStrategy(spec.name);
+  return builtIn && { ...builtIn, progress: spec.progress };
+}
+
+self.onmessage = (event: MessageEvent<ScanWorkerRequest>) => {
+  const { id, buffer, width, height } = event.data;
+
+  try {
+    const imageData = new ImageData(new Uint8ClampedArray(buffer), width, height);
+    const strategies = event.data.strategies
+      .map(resolveStrategy)
+      .filter(strategy => strategy !== undefined);
+
+    for (const strategy of strategies) {
+      post({ id, type: 'progress', progress: strategy.progress, strategy: strategy.name });
+
+      try {
+        const result = decodeWithStrategy(imageData, strategy);
+        if (result) {
+          post({ id, type: 'result', result });
+          return;
+        }
+      } catch (error) {
+        console.warn(`Strategy ${strategy.name} failed:`, error);
+      }
+    }
+
+    post({ id, type: 'result', result: null });
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};